@@ -1,7 +1,10 @@
 #!/usr/bin/env node
 
+import { existsSync } from "node:fs";
 import * as dotenv from "dotenv";
 import { Console, Effect, Layer, Queue } from "effect";
+import type { WorkflowUpdateMessage } from "./contracts/workflow.js";
+import { WorkflowError } from "./core/errors.js";
 import {
   BrowserServiceLive,
   BrowserServiceTag,
@@ -12,6 +15,29 @@ import {
   MultiAgentCliServiceTag,
 } from "./services/MultiAgentCliService.js";
 import { VoiceService, VoiceServiceLive } from "./services/VoiceService.js";
+import { registerBuiltInHandlers } from "./workflow/engine.js";
+import { registerBig3Handlers } from "./workflow/handlers.js";
+import { loadWorkflowDefinition } from "./workflow/loader.js";
+import {
+  createPlanFromDefinition,
+  getDependencies,
+  resolveDependencies,
+} from "./workflow/plan.js";
+import { RecoveryManager } from "./workflow/recovery.js";
+import { WorkflowRunner } from "./workflow/runner.js";
+import type {
+  WorkflowPlan,
+  WorkflowStepDefinition,
+} from "./workflow/schema.js";
+import {
+  FileSystemWorkflowPlanStore,
+  type WorkflowPlanStore,
+} from "./workflow/store.js";
+import {
+  GRAPH_FORMATS,
+  type GraphFormat,
+  renderPlanGraph,
+} from "./workflow/visualize.js";
 
 dotenv.config();
 
@@ -28,12 +54,14 @@ const CliProgram = Effect.gen(function* (_) {
     yield* _(Console.log("  voice          Voice-based agent orchestration"));
     yield* _(Console.log("  coder          Code execution agent"));
     yield* _(Console.log("  browser        Browser automation agent"));
+    yield* _(Console.log("  workflow       Run workflow definition files"));
     yield* _(Console.log("\nExamples:"));
     yield* _(Console.log('  cli multi-agent create-team "Development Team"'));
     yield* _(Console.log("  cli multi-agent list-teams"));
     yield* _(Console.log("  cli voice --help"));
     yield* _(Console.log("  cli coder --help"));
     yield* _(Console.log("  cli browser --help"));
+    yield* _(Console.log("  cli workflow run plan.yaml"));
     yield* _(Console.log("\nUse --help with any command for detailed usage."));
     return;
   }
@@ -166,6 +194,10 @@ const CliProgram = Effect.gen(function* (_) {
       yield* _(runBrowserMode(commandArgs));
       break;
 
+    case "workflow":
+      yield* _(runWorkflowMode(commandArgs));
+      break;
+
     default:
       yield* _(Console.log(`❌ Unknown command: ${command}`));
       yield* _(Console.log("Use 'cli --help' to see available commands"));
@@ -374,6 +406,298 @@ const runBrowserMode = (args: readonly string[]) =>
     yield* _(Console.log(result));
   });
 
+// Workflow Mode
+type WorkflowCliOptions = {
+  help?: boolean;
+  format?: string;
+  store?: string;
+};
+
+// Split workflow arguments into options and positional arguments, collecting
+// errors for unknown options and options missing their value
+const parseWorkflowArgs = (
+  args: readonly string[]
+): {
+  options: WorkflowCliOptions;
+  positionals: readonly string[];
+  errors: readonly string[];
+} => {
+  const options: WorkflowCliOptions = {};
+  const positionals: string[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--help":
+      case "-h":
+        options.help = true;
+        break;
+      case "--format":
+      case "--store": {
+        const value = args[i + 1];
+        if (value === undefined || value.startsWith("-")) {
+          errors.push(`Missing value for ${arg}`);
+        } else {
+          options[arg === "--format" ? "format" : "store"] = value;
+          i += 1;
+        }
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) {
+          errors.push(`Unknown option: ${arg}`);
+        } else {
+          positionals.push(arg);
+        }
+    }
+  }
+
+  return { options, positionals, errors };
+};
+
+const showWorkflowHelp = Effect.gen(function* (_) {
+  yield* _(Console.log("Workflow Mode Commands:"));
+  yield* _(
+    Console.log("  cli workflow run <file>         Execute a workflow file")
+  );
+  yield* _(
+    Console.log("  cli workflow validate <file>    Validate a workflow file")
+  );
+  yield* _(
+    Console.log("  cli workflow graph <file>       Show the step graph")
+  );
+  yield* _(
+    Console.log(
+      "    --format <mermaid|dot>        Render the graph as Mermaid or DOT"
+    )
+  );
+  yield* _(
+    Console.log(
+      "    --store <dir>                 Plan store: run saves plans there"
+    )
+  );
+  yield* _(Console.log("  cli workflow --help             Show this help"));
+  yield* _(Console.log("\nWorkflow files may be YAML (.yaml, .yml) or JSON."));
+  yield* _(
+    Console.log(
+      "With --store, <file> may also be the ID of a plan in the store."
+    )
+  );
+  yield* _(
+    Console.log(
+      "Step types: coder, browser, checkpoint, and the engine built-ins."
+    )
+  );
+});
+
+// Plan of a workflow file or, when no such file exists and a store is
+// given, the stored plan with that ID
+const loadWorkflowPlan = async (
+  source: string,
+  store?: WorkflowPlanStore
+): Promise<WorkflowPlan> => {
+  if (store && !existsSync(source)) {
+    const stored = await store.load(source);
+
+    if (!stored) {
+      throw new WorkflowError(`Workflow plan ${source} not found`, {
+        planId: source,
+      });
+    }
+
+    return stored;
+  }
+
+  return createPlanFromDefinition(await loadWorkflowDefinition(source));
+};
+
+const validateWorkflow = (plan: WorkflowPlan) =>
+  Console.log(`✅ Valid workflow: ${plan.name} (${plan.steps.length} steps)`);
+
+// Print the step graph of a plan as text, or in the given format
+const showWorkflowGraph = (plan: WorkflowPlan, format?: string) =>
+  Effect.gen(function* (_) {
+    if (format !== undefined) {
+      if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+        yield* _(
+          Console.log(
+            `❌ Unknown graph format: ${format} (use ${GRAPH_FORMATS.join(" or ")})`
+          )
+        );
+        process.exitCode = 1;
+        return;
+      }
+
+      yield* _(
+        Console.log(renderPlanGraph(plan, format as GraphFormat).trimEnd())
+      );
+      return;
+    }
+
+    yield* _(Console.log(`🗺️  ${plan.name}`));
+    for (const step of resolveDependencies(plan)) {
+      const dependencies = getDependencies(plan, step.id).map((d) => d.name);
+      yield* _(
+        Console.log(
+          `  ${step.name} [${step.type}]${dependencies.length > 0 ? ` ← ${dependencies.join(", ")}` : ""}`
+        )
+      );
+    }
+  });
+
+// Progress line for a finished step, undefined for other updates
+const describeStepUpdate = (
+  runner: WorkflowRunner,
+  plan: WorkflowPlan,
+  step: WorkflowStepDefinition,
+  update: WorkflowUpdateMessage
+): string | undefined => {
+  const progress = runner.getPlanProgress(plan);
+  const counter = `[${progress.completed + progress.failed + progress.skipped}/${progress.total}]`;
+
+  switch (update.type) {
+    case "step_completed":
+      return `${counter} ✅ ${step.name} (${progress.percentage}%)`;
+    case "step_skipped":
+      return `${counter} ⏭️  ${step.name} (skipped)`;
+    case "step_failed":
+      return `${counter} ❌ ${step.name}: ${update.error?.message ?? "failed"}`;
+    default:
+      return;
+  }
+};
+
+// Execute a plan with the Big 3 handlers, saving it to the store if given
+const runWorkflow = (plan: WorkflowPlan, store?: WorkflowPlanStore) =>
+  Effect.gen(function* (_) {
+    const coder = yield* _(CoderServiceTag);
+    const browser = yield* _(BrowserServiceTag);
+    const runner = new WorkflowRunner({ planStore: store });
+
+    registerBig3Handlers(runner, {
+      coder,
+      browser,
+      recovery: new RecoveryManager(),
+      getPlan: (planId) => (planId === plan.id ? plan : undefined),
+    });
+
+    registerBuiltInHandlers(runner);
+
+    yield* _(Console.log(`🚀 Running workflow: ${plan.name}`));
+
+    runner.onUpdate((update) => {
+      const step = plan.steps.find((s) => s.id === update.stepId);
+      const line = step && describeStepUpdate(runner, plan, step, update);
+      if (line) {
+        Effect.runSync(Console.log(line));
+      }
+    });
+
+    const outcome = yield* _(
+      Effect.tryPromise(() =>
+        runner.executeSequentially(plan, {
+          planId: plan.id,
+          stepId: "",
+          data: { ...plan.context },
+        })
+      ).pipe(Effect.either)
+    );
+
+    if (store) {
+      yield* _(Effect.promise(() => store.save(plan)));
+      yield* _(Console.log(`💾 Saved plan ${plan.id}`));
+    }
+
+    if (outcome._tag === "Left") {
+      const { percentage } = runner.getPlanProgress(plan);
+      yield* _(Console.log(`\n❌ Workflow failed (${percentage}% complete)`));
+      process.exitCode = 1;
+      return;
+    }
+
+    yield* _(Console.log("\n✅ Workflow completed"));
+  });
+
+// Load the plan a workflow command works on, reporting why it cannot be
+// loaded; undefined when it cannot
+const loadWorkflowPlanForCommand = (file: string, store?: WorkflowPlanStore) =>
+  Effect.gen(function* (_) {
+    const loaded = yield* _(
+      Effect.tryPromise(() => loadWorkflowPlan(file, store)).pipe(Effect.either)
+    );
+
+    if (loaded._tag === "Right") {
+      return loaded.right;
+    }
+
+    const cause = loaded.left.error;
+    yield* _(
+      Console.log(
+        `❌ Invalid workflow: ${cause instanceof Error ? cause.message : String(cause)}`
+      )
+    );
+    if (cause instanceof WorkflowError && cause.details) {
+      yield* _(Console.log(JSON.stringify(cause.details, null, 2)));
+    }
+    process.exitCode = 1;
+    return;
+  });
+
+const reportWorkflowUsageErrors = (errors: readonly string[]) =>
+  Effect.gen(function* (_) {
+    for (const error of errors) {
+      yield* _(Console.log(`❌ ${error}`));
+    }
+    yield* _(Console.log("Use 'cli workflow --help' for usage"));
+    process.exitCode = 1;
+  });
+
+const runWorkflowMode = (args: readonly string[]) =>
+  Effect.gen(function* (_) {
+    const { options, positionals, errors } = parseWorkflowArgs(args);
+    const [subCommand, file] = positionals;
+
+    if (!(subCommand && file) || options.help) {
+      yield* _(showWorkflowHelp);
+      return;
+    }
+
+    if (errors.length > 0) {
+      yield* _(reportWorkflowUsageErrors(errors));
+      return;
+    }
+
+    const store =
+      options.store === undefined
+        ? undefined
+        : new FileSystemWorkflowPlanStore(options.store);
+    const plan = yield* _(loadWorkflowPlanForCommand(file, store));
+
+    if (!plan) {
+      return;
+    }
+
+    switch (subCommand) {
+      case "validate":
+        yield* _(validateWorkflow(plan));
+        return;
+
+      case "graph":
+        yield* _(showWorkflowGraph(plan, options.format));
+        return;
+
+      case "run":
+        yield* _(runWorkflow(plan, store));
+        return;
+
+      default:
+        yield* _(
+          reportWorkflowUsageErrors([`Unknown workflow command: ${subCommand}`])
+        );
+    }
+  });
+
 // Dependency Injection
 const CliLayer = Layer.mergeAll(
   MultiAgentCliLayers,
@@ -413,6 +737,10 @@ export async function runCli(args: string[]): Promise<void> {
         yield* _(runBrowserMode(commandArgs));
         break;
 
+      case "workflow":
+        yield* _(runWorkflowMode(commandArgs));
+        break;
+
       default:
         yield* _(Console.log(`❌ Unknown command: ${command}`));
         yield* _(Console.log("Use 'cli --help' to see available commands"));
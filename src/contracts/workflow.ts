@@ -1,42 +1,27 @@
 /**
  * Workflow API Contract Definitions
  * Based on contracts/workflow-api.yaml
+ *
+ * Step and plan shapes are the canonical workflow model from
+ * src/workflow/schema.ts so engine results can be reported directly.
  */
 
-export type WorkflowStep = {
-  id: string;
-  name: string;
-  description: string;
-  status: "pending" | "running" | "completed" | "failed" | "paused";
-  input?: unknown;
-  output?: unknown;
-  error?: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
-  startTime?: number;
-  endTime?: number;
+import type {
+  WorkflowPlan as CanonicalWorkflowPlan,
+  PlanConfig,
+  StepStatus,
+  WorkflowStepDefinition,
+} from "../workflow/schema";
+
+export type WorkflowStepStatus = StepStatus;
+
+export type WorkflowStep = WorkflowStepDefinition & {
   duration?: number;
 };
 
-export type WorkflowPlanConfig = {
-  maxSteps?: number;
-  timeout?: number;
-  retryAttempts?: number;
-  retryDelay?: number;
-};
+export type WorkflowPlanConfig = PlanConfig;
 
-export type WorkflowPlan = {
-  id: string;
-  name: string;
-  description: string;
-  steps: WorkflowStep[];
-  config?: WorkflowPlanConfig;
-  createdAt: number;
-  updatedAt: number;
-  status?: "pending" | "running" | "completed" | "failed" | "paused";
-};
+export type WorkflowPlan = CanonicalWorkflowPlan;
 
 export type CreateWorkflowPlanRequest = {
   name: string;
@@ -52,7 +37,7 @@ export type ExecuteWorkflowRequest = {
 export type WorkflowExecutionStatus = {
   executionId: string;
   planId: string;
-  status: "pending" | "running" | "completed" | "failed" | "paused";
+  status: WorkflowStepStatus;
   steps: WorkflowStep[];
   startedAt: number;
   currentStep?: number;
@@ -60,8 +45,18 @@ export type WorkflowExecutionStatus = {
   estimatedCompletion?: number;
 };
 
+export type WorkflowUpdateType =
+  | "step_started"
+  | "step_completed"
+  | "step_failed"
+  | "step_skipped"
+  | "step_update"
+  | "workflow_started"
+  | "workflow_completed"
+  | "workflow_failed";
+
 export type WorkflowUpdateMessage = {
-  type: "step_update" | "workflow_completed" | "workflow_failed";
+  type: WorkflowUpdateType;
   executionId: string;
   stepId?: string;
   status?: string;
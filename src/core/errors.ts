@@ -130,6 +130,13 @@ export class CommunicationError extends StructuredError {
   }
 }
 
+export class TimeoutError extends StructuredError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, ErrorCode.TIMEOUT_ERROR, ErrorSeverity.ERROR, details);
+    this.name = "TimeoutError";
+  }
+}
+
 // API key format validation regex
 const API_KEY_FORMAT = /^(sk_|pk_)[a-zA-Z0-9]{32,}$/;
 
@@ -97,7 +97,11 @@ export type ExecutionNode = {
   readonly id: string;
   readonly tool: AgentTool;
   readonly dependencies: readonly string[];
-  readonly status: "pending" | "running" | "complete" | "failed";
+  readonly status: "pending" | "running" | "complete" | "failed" | "skipped";
+  readonly output?: unknown;
+  readonly error?: string;
+  readonly startTime?: number;
+  readonly endTime?: number;
 };
 
 export type ExecutionPlan = {
@@ -110,7 +114,9 @@ export type WorkflowResult = {
   readonly planId: string;
   readonly completedNodes: readonly string[];
   readonly failedNodes: readonly string[];
+  readonly skippedNodes?: readonly string[];
   readonly outputs: Record<string, unknown>;
+  readonly nodes?: Record<string, ExecutionNode>;
 };
 
 export type FeedbackLoop = {
@@ -5,6 +5,10 @@ import {
   BrowserServiceTag,
 } from "./services/BrowserService.js";
 import { CoderServiceLive, CoderServiceTag } from "./services/CoderService.js";
+import { ExecutionServiceLive } from "./services/ExecutionService.js";
+import { FeedbackLoopServiceLive } from "./services/FeedbackLoopService.js";
+import { PlannerServiceLive } from "./services/PlannerService.js";
+import { ProjectManagerServiceLive } from "./services/ProjectManagerService.js";
 import { VoiceService, VoiceServiceLive } from "./services/VoiceService.js";
 
 dotenv.config();
@@ -96,12 +100,20 @@ const MainProgram = Effect.gen(function* (_) {
 });
 
 // Dependency Injection
-const SuperAgentLayer = Layer.mergeAll(
-  VoiceServiceLive,
-  CoderServiceLive,
-  BrowserServiceLive
+const AgentLayer = Layer.mergeAll(CoderServiceLive, BrowserServiceLive);
+
+// Multi-agent orchestration on top of the agents; the project manager
+// decomposes goals into execution plans with the planner model
+const OrchestrationLayer = FeedbackLoopServiceLive.pipe(
+  Layer.provideMerge(
+    Layer.mergeAll(ProjectManagerServiceLive, ExecutionServiceLive)
+  ),
+  Layer.provideMerge(PlannerServiceLive),
+  Layer.provideMerge(AgentLayer)
 );
 
+const SuperAgentLayer = Layer.mergeAll(VoiceServiceLive, OrchestrationLayer);
+
 // Run the Program
 Effect.runPromise(MainProgram.pipe(Effect.provide(SuperAgentLayer))).catch(
   (error) => {
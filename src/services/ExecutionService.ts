@@ -1,4 +1,4 @@
-import { Context, Effect, Layer } from "effect";
+import { Clock, Context, Duration, Effect, Either, Layer } from "effect";
 import type {
   AgentTool,
   ExecutionNode,
@@ -12,8 +12,62 @@ export type ExecutionService = {
   readonly executeParallel: (
     plan: ExecutionPlan
   ) => Effect.Effect<WorkflowResult, Error>;
+  /**
+   * Snapshot of queueing per tool tag: how many nodes are running or waiting
+   * for a concurrency slot or rate-limit token, and how long they waited.
+   */
+  readonly getMetrics: () => Effect.Effect<ExecutionMetrics>;
 };
 
+type ToolTag = AgentTool["tag"];
+
+// Model providers called by tools, rate limited independently
+export type Provider = "anthropic" | "gemini";
+
+export type RateLimit = {
+  // Requests that can be made in a burst
+  readonly capacity: number;
+  // Tokens added back to the bucket per second
+  readonly refillPerSecond: number;
+};
+
+export type ExecutionLimits = {
+  // Nodes of each tool tag that may run at once
+  readonly concurrency: Readonly<Record<ToolTag, number>>;
+  // Providers without a limit are not rate limited
+  readonly rateLimits: Readonly<Partial<Record<Provider, RateLimit>>>;
+};
+
+export type ToolQueueMetrics = {
+  readonly running: number;
+  readonly queued: number;
+  readonly completed: number;
+  readonly totalWaitMs: number;
+  readonly maxWaitMs: number;
+};
+
+export type ExecutionMetrics = Readonly<Record<ToolTag, ToolQueueMetrics>>;
+
+// BrowserServiceLive drives a single Playwright page, so browser nodes run
+// one at a time. Provider quotas depend on the account, so rate limits are
+// opt-in.
+export const DEFAULT_EXECUTION_LIMITS: ExecutionLimits = {
+  concurrency: { CreateAgent: 8, CommandAgent: 4, BrowserUse: 1 },
+  rateLimits: {},
+};
+
+// CreateAgent is metadata-only and calls no provider
+const TOOL_PROVIDERS: Readonly<Partial<Record<ToolTag, Provider>>> = {
+  CommandAgent: "anthropic",
+  BrowserUse: "gemini",
+};
+
+const TOOL_TAGS: readonly ToolTag[] = [
+  "CreateAgent",
+  "CommandAgent",
+  "BrowserUse",
+];
+
 export const ExecutionServiceTag =
   Context.GenericTag<ExecutionService>("ExecutionService");
 
@@ -55,92 +109,339 @@ const dispatchTool = (
     }
   });
 
-// Execute a single batch of parallel nodes
-const executeBatch = (
-  batch: readonly string[],
-  nodes: Record<string, ExecutionNode>,
+type NodeSuccess = { output: unknown; startTime: number; endTime: number };
+type NodeFailure = { error: Error; startTime: number; endTime: number };
+
+// Execute a single node, recording when it started and finished
+const executeNode = (
+  node: ExecutionNode,
   coder: import("./CoderService.js").CoderService,
   browser: import("./BrowserService.js").BrowserService
-): Effect.Effect<ReadonlyArray<{ nodeId: string; output: unknown }>, Error> =>
-  Effect.gen(function* (_) {
-    // Execute all nodes in batch concurrently with unbounded parallelism
-    const results = yield* _(
-      Effect.all(
-        batch.map((nodeId) => {
-          const node = nodes[nodeId];
-          if (!node) {
-            return Effect.fail(new Error(`Node not found: ${nodeId}`));
-          }
-          return dispatchTool(nodeId, node.tool, coder, browser);
+): Effect.Effect<NodeSuccess, NodeFailure> =>
+  Effect.suspend(() => {
+    const startTime = Date.now();
+    return dispatchTool(node.id, node.tool, coder, browser).pipe(
+      Effect.mapBoth({
+        onFailure: (error) => ({ error, startTime, endTime: Date.now() }),
+        onSuccess: ({ output }) => ({
+          output,
+          startTime,
+          endTime: Date.now(),
         }),
-        { concurrency: "unbounded" }
-      )
+      })
     );
+  });
+
+// Token bucket: take() waits until a token is available. Waiters queue on a
+// semaphore so tokens are handed out in arrival order.
+const makeTokenBucket = ({ capacity, refillPerSecond }: RateLimit) =>
+  Effect.gen(function* () {
+    const mutex = yield* Effect.makeSemaphore(1);
+    let tokens = capacity;
+    let refilledAt = yield* Clock.currentTimeMillis;
+
+    const refill = Effect.map(Clock.currentTimeMillis, (now) => {
+      tokens = Math.min(
+        capacity,
+        tokens + ((now - refilledAt) / 1000) * refillPerSecond
+      );
+      refilledAt = now;
+    });
 
-    return results;
+    const take = Effect.gen(function* () {
+      yield* refill;
+
+      if (tokens < 1) {
+        const waitMs = ((1 - tokens) / refillPerSecond) * 1000;
+        yield* Effect.sleep(Duration.millis(Math.ceil(waitMs)));
+        yield* refill;
+      }
+
+      tokens -= 1;
+    });
+
+    return { take: mutex.withPermits(1)(take) };
   });
 
-export const ExecutionServiceLive = Layer.effect(
-  ExecutionServiceTag,
-  Effect.gen(function* (_) {
-    const coder = yield* _(CoderServiceTag);
-    const browser = yield* _(BrowserServiceTag);
-
-    return {
-      executeParallel: (plan) =>
-        Effect.gen(function* (_) {
-          const completedNodes: string[] = [];
-          const failedNodes: string[] = [];
-          const outputs: Record<string, unknown> = {};
-
-          // Execute all batches sequentially (batches contain parallel nodes)
-          for (const batch of plan.parallelBatches) {
-            const batchResults = yield* _(
-              Effect.tryPromise({
-                try: async () => {
-                  const effect = executeBatch(
-                    batch,
-                    plan.nodes,
-                    coder,
-                    browser
-                  );
-                  return await Effect.runPromise(effect);
-                },
-                catch: (error) => {
-                  // Mark all nodes in batch as failed
-                  for (const nodeId of batch) {
-                    failedNodes.push(nodeId);
-                  }
-                  return new Error(
-                    `Batch execution failed: ${error instanceof Error ? error.message : String(error)}`
-                  );
-                },
-              }).pipe(
-                Effect.catchAll(() => {
-                  // Continue to next batch on error
-                  return Effect.succeed(
-                    [] as ReadonlyArray<{ nodeId: string; output: unknown }>
-                  );
-                })
-              )
-            );
-
-            // Collect results
-            for (const result of batchResults) {
-              completedNodes.push(result.nodeId);
-              outputs[result.nodeId] = result.output;
-            }
+type QueueCounters = { -readonly [K in keyof ToolQueueMetrics]: number };
+
+// Limits under which nodes would wait forever: no concurrency slot, a bucket
+// that never holds a whole token, or one that never refills
+const validateLimits = (
+  limits: ExecutionLimits
+): Effect.Effect<ExecutionLimits, Error> => {
+  const problems = [
+    ...TOOL_TAGS.filter((tag) => !(limits.concurrency[tag] >= 1)).map(
+      (tag) => `concurrency.${tag} must be at least 1`
+    ),
+    ...Object.entries(limits.rateLimits).flatMap(
+      ([provider, { capacity, refillPerSecond }]) => [
+        ...(capacity >= 1
+          ? []
+          : [`rateLimits.${provider}.capacity must be at least 1`]),
+        ...(refillPerSecond > 0
+          ? []
+          : [`rateLimits.${provider}.refillPerSecond must be positive`]),
+      ]
+    ),
+  ];
+
+  return problems.length === 0
+    ? Effect.succeed(limits)
+    : Effect.fail(
+        new Error(`Invalid execution limits: ${problems.join(", ")}`)
+      );
+};
+
+// Admits nodes under the concurrency limit of their tool tag and the rate
+// limit of its provider, keeping queueing metrics per tool tag
+const makeToolLimiter = (limits: ExecutionLimits) =>
+  Effect.gen(function* () {
+    const slots = new Map<ToolTag, Effect.Semaphore>();
+    const metrics = new Map<ToolTag, QueueCounters>();
+
+    for (const tag of TOOL_TAGS) {
+      slots.set(tag, yield* Effect.makeSemaphore(limits.concurrency[tag]));
+      metrics.set(tag, {
+        running: 0,
+        queued: 0,
+        completed: 0,
+        totalWaitMs: 0,
+        maxWaitMs: 0,
+      });
+    }
+
+    const buckets = new Map<Provider, { take: Effect.Effect<void> }>();
+    for (const [provider, rateLimit] of Object.entries(limits.rateLimits)) {
+      buckets.set(provider as Provider, yield* makeTokenBucket(rateLimit));
+    }
+
+    const run = <A, E>(
+      tag: ToolTag,
+      effect: Effect.Effect<A, E>
+    ): Effect.Effect<A, E> => {
+      const slot = slots.get(tag) as Effect.Semaphore;
+      const counters = metrics.get(tag) as QueueCounters;
+      const provider = TOOL_PROVIDERS[tag];
+      const bucket = provider ? buckets.get(provider) : undefined;
+
+      return Effect.gen(function* () {
+        const queuedAt = yield* Clock.currentTimeMillis;
+        let waiting = true;
+        counters.queued += 1;
+
+        // Runs once the node is admitted, or when it is interrupted waiting
+        const leaveQueue = Effect.sync(() => {
+          if (waiting) {
+            waiting = false;
+            counters.queued -= 1;
           }
+        });
 
-          const workflowResult: WorkflowResult = {
-            planId: plan.id,
-            completedNodes,
-            failedNodes,
-            outputs,
-          };
+        return yield* slot
+          .withPermits(1)(
+            Effect.gen(function* () {
+              if (bucket) {
+                yield* bucket.take;
+              }
 
-          return workflowResult;
-        }),
+              const waitMs = (yield* Clock.currentTimeMillis) - queuedAt;
+              yield* leaveQueue;
+              counters.running += 1;
+              counters.totalWaitMs += waitMs;
+              counters.maxWaitMs = Math.max(counters.maxWaitMs, waitMs);
+
+              return yield* effect.pipe(
+                Effect.ensuring(
+                  Effect.sync(() => {
+                    counters.running -= 1;
+                    counters.completed += 1;
+                  })
+                )
+              );
+            })
+          )
+          .pipe(Effect.ensuring(leaveQueue));
+      });
     };
-  })
-);
+
+    const snapshot = (): ExecutionMetrics =>
+      Object.fromEntries(
+        TOOL_TAGS.map((tag) => [tag, { ...metrics.get(tag) }])
+      ) as ExecutionMetrics;
+
+    return { run, snapshot };
+  });
+
+// Why the node cannot run: a dependency is not in the plan, or it failed or
+// was skipped
+const findBlockingReason = (
+  node: ExecutionNode,
+  nodes: Record<string, ExecutionNode>
+): string | undefined => {
+  for (const dependencyId of node.dependencies) {
+    const status = nodes[dependencyId]?.status;
+
+    if (status === undefined) {
+      return `Dependency ${dependencyId} is not in the plan`;
+    }
+    if (status === "failed" || status === "skipped") {
+      return `Dependency ${dependencyId} did not complete`;
+    }
+  }
+
+  return;
+};
+
+// Split a batch into nodes that can run, unknown node IDs, and nodes that
+// are skipped because a dependency is unknown, failed or was skipped
+const partitionBatch = (
+  batch: readonly string[],
+  nodes: Record<string, ExecutionNode>
+): {
+  runnable: ExecutionNode[];
+  missing: string[];
+  skipped: ExecutionNode[];
+} => {
+  const runnable: ExecutionNode[] = [];
+  const missing: string[] = [];
+  const skipped: ExecutionNode[] = [];
+
+  for (const nodeId of batch) {
+    const node = nodes[nodeId];
+    const blockedBy = node && findBlockingReason(node, nodes);
+
+    if (!node) {
+      missing.push(nodeId);
+    } else if (blockedBy) {
+      skipped.push({ ...node, status: "skipped", error: blockedBy });
+    } else {
+      runnable.push(node);
+    }
+  }
+
+  return { runnable, missing, skipped };
+};
+
+// Node state after it ran, from the outcome of executeNode
+const settleNode = (
+  node: ExecutionNode,
+  result: Either.Either<NodeSuccess, NodeFailure>
+): ExecutionNode => {
+  if (Either.isRight(result)) {
+    return { ...node, ...result.right, status: "complete" };
+  }
+
+  const { error, startTime, endTime } = result.left;
+  return {
+    ...node,
+    status: "failed",
+    error: error.message,
+    startTime,
+    endTime,
+  };
+};
+
+/**
+ * Execution service with concurrency limits per tool tag and rate limits
+ * per provider. Limits not given fall back to DEFAULT_EXECUTION_LIMITS, and
+ * providers are only rate limited when given a limit; building the layer fails on limits that would block nodes forever.
+ */
+export const makeExecutionServiceLive = (
+  limits: {
+    readonly concurrency?: Partial<ExecutionLimits["concurrency"]>;
+    readonly rateLimits?: Partial<ExecutionLimits["rateLimits"]>;
+  } = {}
+) =>
+  Layer.effect(
+    ExecutionServiceTag,
+    Effect.gen(function* (_) {
+      const coder = yield* _(CoderServiceTag);
+      const browser = yield* _(BrowserServiceTag);
+      const validLimits = yield* _(
+        validateLimits({
+          concurrency: {
+            ...DEFAULT_EXECUTION_LIMITS.concurrency,
+            ...limits.concurrency,
+          },
+          rateLimits: {
+            ...DEFAULT_EXECUTION_LIMITS.rateLimits,
+            ...limits.rateLimits,
+          },
+        })
+      );
+      const limiter = yield* _(makeToolLimiter(validLimits));
+
+      return {
+        executeParallel: (plan) =>
+          Effect.gen(function* (_) {
+            // Node states as execution progresses (plan nodes are immutable)
+            const nodes: Record<string, ExecutionNode> = { ...plan.nodes };
+            const completedNodes: string[] = [];
+            const failedNodes: string[] = [];
+            const skippedNodes: string[] = [];
+            const outputs: Record<string, unknown> = {};
+
+            // Execute all batches sequentially (batches contain parallel nodes)
+            for (const batch of plan.parallelBatches) {
+              const { runnable, missing, skipped } = partitionBatch(
+                batch,
+                nodes
+              );
+              failedNodes.push(...missing);
+
+              // Skip nodes whose dependencies did not complete
+              for (const node of skipped) {
+                nodes[node.id] = node;
+                skippedNodes.push(node.id);
+              }
+
+              // Run the batch concurrently within the tool limits; "either"
+              // mode keeps each node's outcome so one failure does not discard
+              // its siblings' outputs
+              const results = yield* _(
+                Effect.all(
+                  runnable.map((node) =>
+                    limiter.run(
+                      node.tool.tag,
+                      executeNode(node, coder, browser)
+                    )
+                  ),
+                  { concurrency: "unbounded", mode: "either" }
+                )
+              );
+
+              results.forEach((result, index) => {
+                const node = settleNode(
+                  runnable[index] as ExecutionNode,
+                  result
+                );
+                nodes[node.id] = node;
+
+                if (node.status === "complete") {
+                  completedNodes.push(node.id);
+                  outputs[node.id] = node.output;
+                } else {
+                  failedNodes.push(node.id);
+                }
+              });
+            }
+
+            const workflowResult: WorkflowResult = {
+              planId: plan.id,
+              completedNodes,
+              failedNodes,
+              skippedNodes,
+              outputs,
+              nodes,
+            };
+
+            return workflowResult;
+          }),
+
+        getMetrics: () => Effect.sync(limiter.snapshot),
+      };
+    })
+  );
+
+export const ExecutionServiceLive = makeExecutionServiceLive();
@@ -0,0 +1,309 @@
+import { randomUUID } from "node:crypto";
+import { Context, Duration, Effect, Layer } from "effect";
+import type {
+  AgentTool,
+  ExecutionNode,
+  ExecutionPlan,
+  FeedbackLoop,
+  WorkflowResult,
+  WorkflowState,
+} from "../domain.js";
+import { ExecutionServiceTag } from "./ExecutionService.js";
+import { ProjectManagerService } from "./ProjectManagerService.js";
+
+export type FeedbackLoopResult = {
+  // "complete" once validation passes, "failed" when the loop gave up
+  readonly state: WorkflowState;
+  // Merged result of the plan and every feedback round
+  readonly result: WorkflowResult;
+  // The loop with the errors of the last validation
+  readonly loop: FeedbackLoop;
+  // Executions run, including the first
+  readonly attempts: number;
+  // "planning" marks building each feedback round's plan
+  readonly transitions: readonly WorkflowState[];
+  // Follow-up left for a person to send when the strategy is "manual"
+  readonly pendingFeedback?: AgentTool;
+};
+
+/**
+ * FeedbackLoopService - execute, validate, feed errors back, repeat.
+ *
+ * Runs an execution plan and validates its result. On failure the
+ * validation errors go back to the plan's coder as a follow-up CommandAgent
+ * instruction, after which the nodes that did not complete or whose outputs
+ * failed validation run again.
+ *
+ * Retry strategies:
+ * - immediate → next round right away
+ * - backoff → wait backoffBaseMs, doubling every round
+ * - manual → stop and hand the follow-up back as pendingFeedback
+ */
+export type FeedbackLoopService = {
+  readonly run: (
+    plan: ExecutionPlan,
+    loop: FeedbackLoop
+  ) => Effect.Effect<FeedbackLoopResult, Error>;
+};
+
+export const FeedbackLoopServiceTag = Context.GenericTag<FeedbackLoopService>(
+  "FeedbackLoopService"
+);
+
+// Validation errors from the nodes that did not complete and the nodes
+// whose outputs failed validation, or a general error when neither is known
+const collectValidationErrors = (
+  result: WorkflowResult,
+  invalidNodes: readonly string[]
+): string[] => {
+  const describe = (nodeId: string, outcome: string) =>
+    `Node ${nodeId} ${outcome}: ${result.nodes?.[nodeId]?.error ?? "unknown error"}`;
+
+  const errors = [
+    ...result.failedNodes.map((nodeId) => describe(nodeId, "failed")),
+    ...(result.skippedNodes ?? []).map((nodeId) =>
+      describe(nodeId, "was skipped")
+    ),
+    ...invalidNodes.map(
+      (nodeId) =>
+        `Node ${nodeId} output failed validation: expected files are missing or empty`
+    ),
+  ];
+
+  return errors.length > 0
+    ? errors
+    : ["Outputs failed validation: expected files are missing or empty"];
+};
+
+// Follow-up instruction with the validation errors, sent to the first coder
+// the plan commands or creates; undefined when the plan has no coder
+const feedbackTool = (
+  plan: ExecutionPlan,
+  validationErrors: readonly string[]
+): AgentTool | undefined => {
+  const coder = Object.values(plan.nodes).find(
+    ({ tool }) =>
+      tool.tag === "CommandAgent" ||
+      (tool.tag === "CreateAgent" && tool.agentType === "coder")
+  );
+
+  if (!coder || coder.tool.tag === "BrowserUse") {
+    return;
+  }
+
+  return {
+    tag: "CommandAgent",
+    name: coder.tool.name,
+    instruction: [
+      "The previous attempt failed validation. Fix these problems:",
+      ...validationErrors.map((error) => `- ${error}`),
+    ].join("\n"),
+  };
+};
+
+// Completed nodes whose outputs fail validation on their own, or every
+// completed node when there are no outputs to validate at all
+const findInvalidNodes = (
+  projectManager: ProjectManagerService,
+  result: WorkflowResult
+): Effect.Effect<string[], Error> =>
+  Object.keys(result.outputs).length === 0
+    ? Effect.succeed([...result.completedNodes])
+    : Effect.filter(result.completedNodes, (nodeId) =>
+        projectManager
+          .validate({
+            planId: result.planId,
+            completedNodes: [nodeId],
+            failedNodes: [],
+            outputs: { [nodeId]: result.outputs[nodeId] },
+          })
+          .pipe(Effect.map((valid) => !valid))
+      );
+
+// Plan for a feedback round: the follow-up instruction first, then the
+// nodes of the original plan to run again, in their original order
+const buildFeedbackPlan = (
+  plan: ExecutionPlan,
+  rerun: ReadonlySet<string>,
+  feedback: AgentTool
+): ExecutionPlan => {
+  const feedbackId = `node-${randomUUID()}`;
+  const nodes: Record<string, ExecutionNode> = {
+    [feedbackId]: {
+      id: feedbackId,
+      tool: feedback,
+      dependencies: [],
+      status: "pending",
+    },
+  };
+
+  for (const nodeId of rerun) {
+    const node = plan.nodes[nodeId];
+    if (node) {
+      nodes[nodeId] = {
+        id: node.id,
+        tool: node.tool,
+        dependencies: [
+          feedbackId,
+          ...node.dependencies.filter((dependencyId) =>
+            rerun.has(dependencyId)
+          ),
+        ],
+        status: "pending",
+      };
+    }
+  }
+
+  return {
+    id: plan.id,
+    nodes,
+    parallelBatches: [
+      [feedbackId],
+      ...plan.parallelBatches
+        .map((batch) => batch.filter((nodeId) => nodeId in nodes))
+        .filter((batch) => batch.length > 0),
+    ],
+  };
+};
+
+// Fold a feedback round into the result so far; nodes that ran again take
+// their latest outcome. The follow-up instruction is not a plan node, so it
+// is left out of the merged result and its reply out of the outputs that
+// are validated.
+const mergeResults = (
+  plan: ExecutionPlan,
+  previous: WorkflowResult,
+  round: WorkflowResult
+): WorkflowResult => {
+  const inPlan = (nodeId: string) => nodeId in plan.nodes;
+  const ranAgain = new Set(Object.keys(round.nodes ?? {}));
+  const planOutputs = Object.entries(round.outputs).filter(([nodeId]) =>
+    inPlan(nodeId)
+  );
+  const planNodes = Object.entries(round.nodes ?? {}).filter(([nodeId]) =>
+    inPlan(nodeId)
+  );
+  const previousOutputs = Object.entries(previous.outputs).filter(
+    ([nodeId]) => !ranAgain.has(nodeId)
+  );
+
+  return {
+    planId: previous.planId,
+    completedNodes: [
+      ...previous.completedNodes.filter((nodeId) => !ranAgain.has(nodeId)),
+      ...round.completedNodes.filter(inPlan),
+    ],
+    failedNodes: round.failedNodes.filter(inPlan),
+    skippedNodes: (round.skippedNodes ?? []).filter(inPlan),
+    outputs: {
+      ...Object.fromEntries(previousOutputs),
+      ...Object.fromEntries(planOutputs),
+    },
+    nodes: { ...previous.nodes, ...Object.fromEntries(planNodes) },
+  };
+};
+
+// Manual loops never retry on their own; others until maxRetries rounds ran
+const shouldRetry = (loop: FeedbackLoop, attempts: number): boolean =>
+  loop.retryStrategy !== "manual" && attempts <= loop.maxRetries;
+
+const waitBeforeRetry = (
+  loop: FeedbackLoop,
+  attempts: number,
+  backoffBaseMs: number
+): Effect.Effect<void> =>
+  loop.retryStrategy === "backoff"
+    ? Effect.sleep(Duration.millis(backoffBaseMs * 2 ** (attempts - 1)))
+    : Effect.void;
+
+/**
+ * Feedback loop service. Backoff waits backoffBaseMs before the first
+ * feedback round and doubles the wait for every round after it.
+ */
+export const makeFeedbackLoopServiceLive = (
+  options: { readonly backoffBaseMs?: number } = {}
+) =>
+  Layer.effect(
+    FeedbackLoopServiceTag,
+    Effect.gen(function* () {
+      const executor = yield* ExecutionServiceTag;
+      const projectManager = yield* ProjectManagerService;
+      const backoffBaseMs = options.backoffBaseMs ?? 1000;
+
+      return {
+        run: (plan, loop) =>
+          Effect.gen(function* () {
+            const transitions: WorkflowState[] = [];
+            // Skipped nodes never ran, so the result is not valid whatever
+            // the outputs of the nodes that did
+            const validate = (outcome: WorkflowResult) =>
+              Effect.sync(() => transitions.push("validating")).pipe(
+                Effect.zipRight(
+                  (outcome.skippedNodes ?? []).length > 0
+                    ? Effect.succeed(false)
+                    : projectManager.validate(outcome)
+                )
+              );
+
+            transitions.push("executing");
+            let result = yield* executor.executeParallel(plan);
+            let attempts = 1;
+
+            while (!(yield* validate(result))) {
+              const invalidNodes = yield* findInvalidNodes(
+                projectManager,
+                result
+              );
+              const validationErrors = collectValidationErrors(
+                result,
+                invalidNodes
+              );
+              const feedback = feedbackTool(plan, validationErrors);
+
+              if (!(feedback && shouldRetry(loop, attempts))) {
+                transitions.push("failed");
+                return {
+                  state: "failed",
+                  result,
+                  loop: { ...loop, validationErrors },
+                  attempts,
+                  transitions,
+                  ...(loop.retryStrategy === "manual" && {
+                    pendingFeedback: feedback,
+                  }),
+                } satisfies FeedbackLoopResult;
+              }
+
+              yield* waitBeforeRetry(loop, attempts, backoffBaseMs);
+
+              transitions.push("planning");
+              const feedbackPlan = buildFeedbackPlan(
+                plan,
+                new Set([
+                  ...result.failedNodes,
+                  ...(result.skippedNodes ?? []),
+                  ...invalidNodes,
+                ]),
+                feedback
+              );
+
+              transitions.push("executing");
+              const round = yield* executor.executeParallel(feedbackPlan);
+              result = mergeResults(plan, result, round);
+              attempts += 1;
+            }
+
+            transitions.push("complete");
+            return {
+              state: "complete",
+              result,
+              loop: { ...loop, validationErrors: [] },
+              attempts,
+              transitions,
+            } satisfies FeedbackLoopResult;
+          }),
+      };
+    })
+  );
+
+export const FeedbackLoopServiceLive = makeFeedbackLoopServiceLive();
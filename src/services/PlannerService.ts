@@ -0,0 +1,62 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { Context, Duration, Effect, Layer } from "effect";
+
+/**
+ * PlannerService - model provider behind task decomposition.
+ *
+ * Takes a system prompt and a user prompt and returns the model's raw text.
+ * Swap the layer to use another model, or a scripted fake in tests.
+ */
+export type PlannerService = {
+  readonly complete: (
+    system: string,
+    prompt: string
+  ) => Effect.Effect<string, Error>;
+};
+
+export const PlannerServiceTag =
+  Context.GenericTag<PlannerService>("PlannerService");
+
+// Implementation using Anthropic SDK
+export const PlannerServiceLive = Layer.effect(
+  PlannerServiceTag,
+  Effect.sync(() => {
+    const client = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY ?? "test-api-key",
+    });
+    const timeoutMs = 60_000;
+
+    const runClaude = (system: string, prompt: string) =>
+      Effect.tryPromise({
+        try: async () => {
+          const message = await client.messages.create({
+            model: "claude-3-5-sonnet-20241022",
+            max_tokens: 2048,
+            system,
+            messages: [{ role: "user", content: prompt }],
+          });
+
+          const textBlock = message.content.find(
+            (block) => block.type === "text"
+          );
+
+          if (!textBlock) {
+            throw new Error("Invalid Claude response format");
+          }
+
+          return textBlock.text;
+        },
+        catch: (error) => new Error(`Claude planning failed: ${error}`),
+      });
+
+    return {
+      complete: (system, prompt) =>
+        Effect.raceFirst(
+          runClaude(system, prompt),
+          Effect.flatMap(Effect.sleep(Duration.millis(timeoutMs)), () =>
+            Effect.fail(new Error("Claude planning timed out"))
+          )
+        ),
+    };
+  })
+);
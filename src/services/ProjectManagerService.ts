@@ -1,6 +1,7 @@
 import { randomUUID } from "node:crypto";
 import { access } from "node:fs/promises";
 import { Context, Effect, Layer } from "effect";
+import { z } from "zod";
 import type {
   AgentTool,
   ExecutionNode,
@@ -9,6 +10,14 @@ import type {
 } from "../domain.js";
 import { BrowserServiceTag } from "./BrowserService.js";
 import { CoderServiceTag } from "./CoderService.js";
+import { type PlannerService, PlannerServiceTag } from "./PlannerService.js";
+
+/**
+ * Dependencies between delegated tools, by index into the tools array.
+ * Each entry lists the tools that must complete before the keyed tool runs,
+ * e.g. `{ 1: [0] }` runs tool 1 only after tool 0.
+ */
+export type ToolDependencies = Readonly<Record<number, readonly number[]>>;
 
 /**
  * ProjectManagerService - Phase 1.1 MVP Implementation
@@ -28,6 +37,28 @@ export type ProjectManagerService = {
    */
   readonly delegate: (tool: AgentTool) => Effect.Effect<ExecutionPlan, Error>;
 
+  /**
+   * Delegate several tools as one execution plan. Each tool becomes a node
+   * whose dependencies are the nodes of the tools it depends on, and nodes
+   * are grouped into parallel batches by topological layering.
+   *
+   * Fails on unknown tool indices and dependency cycles.
+   */
+  readonly delegateMany: (
+    tools: readonly AgentTool[],
+    dependencies?: ToolDependencies
+  ) => Effect.Effect<ExecutionPlan, Error>;
+
+  /**
+   * Decompose a natural-language goal into an execution plan. The planner
+   * model proposes CreateAgent/CommandAgent/BrowserUse tool calls with
+   * dependencies, which are validated against the AgentTool union before
+   * being delegated as one plan.
+   *
+   * Fails when the model response is not a valid task plan.
+   */
+  readonly decompose: (goal: string) => Effect.Effect<ExecutionPlan, Error>;
+
   /**
    * Validate workflow results using file existence checks.
    * Gate mechanism prevents bad handoffs between agents.
@@ -39,56 +70,239 @@ export const ProjectManagerService = Context.GenericTag<ProjectManagerService>(
   "ProjectManagerService"
 );
 
+/**
+ * Build an execution plan with one node per tool, wiring dependencies by
+ * tool index onto node IDs.
+ */
+const buildExecutionPlan = (
+  tools: readonly AgentTool[],
+  dependencies: ToolDependencies
+): Effect.Effect<ExecutionPlan, Error> =>
+  Effect.gen(function* (_) {
+    if (tools.length === 0) {
+      return yield* _(Effect.fail(new Error("No tools to delegate")));
+    }
+
+    // Generate unique node IDs using crypto.randomUUID
+    const nodeIds = tools.map(() => `node-${randomUUID()}`);
+
+    for (const [index, prerequisites] of Object.entries(dependencies)) {
+      for (const toolIndex of [Number(index), ...prerequisites]) {
+        if (nodeIds[toolIndex] === undefined) {
+          return yield* _(
+            Effect.fail(new Error(`Unknown tool index: ${toolIndex}`))
+          );
+        }
+      }
+    }
+
+    // Create execution nodes keyed by nodeId
+    const nodes: Record<string, ExecutionNode> = {};
+    tools.forEach((tool, index) => {
+      const nodeId = nodeIds[index] as string;
+      nodes[nodeId] = {
+        id: nodeId,
+        tool,
+        dependencies: [
+          ...new Set(
+            (dependencies[index] ?? []).map(
+              (toolIndex) => nodeIds[toolIndex] as string
+            )
+          ),
+        ],
+        status: "pending",
+      };
+    });
+
+    const parallelBatches = yield* _(layerBatches(nodeIds, nodes));
+
+    return {
+      id: `plan-${randomUUID()}`,
+      nodes,
+      parallelBatches,
+    };
+  });
+
+/**
+ * Group nodes into batches by topological layering: each batch holds the
+ * nodes whose dependencies are all in earlier batches. Nodes left over once
+ * no batch can be formed are part of a cycle.
+ */
+const layerBatches = (
+  nodeIds: readonly string[],
+  nodes: Record<string, ExecutionNode>
+): Effect.Effect<readonly (readonly string[])[], Error> => {
+  const batches: string[][] = [];
+  const scheduled = new Set<string>();
+  let remaining = [...nodeIds];
+
+  while (remaining.length > 0) {
+    const batch = remaining.filter((nodeId) =>
+      nodes[nodeId]?.dependencies.every((dependencyId) =>
+        scheduled.has(dependencyId)
+      )
+    );
+
+    if (batch.length === 0) {
+      return Effect.fail(
+        new Error(`Dependency cycle between nodes: ${remaining.join(", ")}`)
+      );
+    }
+
+    for (const nodeId of batch) {
+      scheduled.add(nodeId);
+    }
+    batches.push(batch);
+    remaining = remaining.filter((nodeId) => !scheduled.has(nodeId));
+  }
+
+  return Effect.succeed(batches);
+};
+
+/**
+ * AgentTool union as the planner model is asked to emit it. Keyed by the
+ * domain union's tags, so every variant needs a schema and every schema must
+ * parse to its variant.
+ */
+const AGENT_TOOL_SCHEMAS = {
+  CreateAgent: z.object({
+    tag: z.literal("CreateAgent"),
+    agentType: z.enum(["coder", "browser"]),
+    name: z.string().min(1),
+  }),
+  CommandAgent: z.object({
+    tag: z.literal("CommandAgent"),
+    name: z.string().min(1),
+    instruction: z.string().min(1),
+  }),
+  BrowserUse: z.object({
+    tag: z.literal("BrowserUse"),
+    task: z.string().min(1),
+    url: z.string().url().optional(),
+  }),
+} satisfies {
+  readonly [Tag in AgentTool["tag"]]: z.ZodType<
+    Extract<AgentTool, { tag: Tag }>
+  >;
+};
+
+const AgentToolSchema = z.discriminatedUnion("tag", [
+  AGENT_TOOL_SCHEMAS.CreateAgent,
+  AGENT_TOOL_SCHEMAS.CommandAgent,
+  AGENT_TOOL_SCHEMAS.BrowserUse,
+]);
+
+const TaskPlanSchema = z.object({
+  tasks: z
+    .array(
+      z.object({
+        tool: AgentToolSchema,
+        dependsOn: z.array(z.number().int().nonnegative()).default([]),
+      })
+    )
+    .min(1),
+});
+
+const CODE_FENCE_PATTERN = /^```(?:json)?\s*|\s*```$/g;
+
+const PLANNER_SYSTEM_PROMPT = `You are the project manager of a team of coding and browser agents.
+Decompose the user's goal into tasks. Each task is exactly one tool call:
+- {"tag": "CreateAgent", "agentType": "coder" | "browser", "name": string} creates an agent
+- {"tag": "CommandAgent", "name": string, "instruction": string} sends an instruction to the named coder agent
+- {"tag": "BrowserUse", "task": string, "url"?: string} performs a task in the browser
+
+Reply with JSON only, in the form:
+{"tasks": [{"tool": <tool call>, "dependsOn": [<indices of earlier tasks that must finish first>]}]}
+Tasks without dependencies run in parallel, so only list real dependencies.`;
+
+/**
+ * Ask the planner model for a task plan and convert it into tools and
+ * dependencies by tool index.
+ */
+const requestTaskPlan = (
+  planner: PlannerService,
+  goal: string
+): Effect.Effect<
+  { tools: AgentTool[]; dependencies: ToolDependencies },
+  Error
+> =>
+  Effect.gen(function* (_) {
+    const response = yield* _(planner.complete(PLANNER_SYSTEM_PROMPT, goal));
+
+    const json = yield* _(
+      Effect.try({
+        try: (): unknown =>
+          JSON.parse(response.trim().replace(CODE_FENCE_PATTERN, "")),
+        catch: () => new Error("Planner response is not valid JSON"),
+      })
+    );
+
+    const parsed = TaskPlanSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+      return yield* _(Effect.fail(new Error(`Invalid task plan: ${issues}`)));
+    }
+
+    const dependencies: Record<number, readonly number[]> = {};
+    parsed.data.tasks.forEach((task, index) => {
+      if (task.dependsOn.length > 0) {
+        dependencies[index] = task.dependsOn;
+      }
+    });
+
+    return {
+      tools: parsed.data.tasks.map((task) => task.tool),
+      dependencies,
+    };
+  });
+
 /**
  * Live implementation using Effect.gen pattern.
- * Dependencies injected via Context: CoderService, BrowserService
+ * Dependencies injected via Context: CoderService, BrowserService,
+ * PlannerService
  */
 export const ProjectManagerServiceLive = Layer.effect(
   ProjectManagerService,
   Effect.gen(function* (_) {
     const _coderService = yield* _(CoderServiceTag);
     const _browserService = yield* _(BrowserServiceTag);
+    const planner = yield* _(PlannerServiceTag);
 
     return {
       /**
        * Creates execution plan from single tool.
+       * Single tool = single node = single batch (no parallelization needed)
+       */
+      delegate: (tool) => buildExecutionPlan([tool], {}),
+
+      /**
+       * Creates execution plan from multiple tools.
        *
        * PARALLEL BATCHING LOGIC:
-       * - Single tool = single node = single batch (no parallelization needed)
-       * - For multiple tools (future): group independent tools (no shared dependencies)
-       *   into same batch for concurrent execution via Effect.all
+       * - Each batch holds the nodes whose dependencies all ran in earlier
+       *   batches, so nodes in a batch can run concurrently via Effect.all
+       * - Batches run in order, so dependents wait for their dependencies
        *
-       * Example with multiple tools:
+       * Example ("code, then browse to verify"):
        *   Tools: [CommandAgent, BrowserUse, CommandAgent]
-       *   Dependencies: none between them
-       *   Result: parallelBatches = [["node1", "node2", "node3"]]
-       *   Execution: Effect.all([...]) runs all concurrently
+       *   Dependencies: { 1: [0] }
+       *   Result: parallelBatches = [["node1", "node3"], ["node2"]]
        */
-      delegate: (tool) =>
-        Effect.gen(function* (_) {
-          // Generate unique node ID using crypto.randomUUID
-          const nodeId = `node-${randomUUID()}`;
-
-          // Create execution node with no dependencies (single tool)
-          const node: ExecutionNode = {
-            id: nodeId,
-            tool,
-            dependencies: [], // No dependencies for single-tool plans
-            status: "pending",
-          };
-
-          // Single batch containing single node (no parallelization needed)
-          const parallelBatches: readonly (readonly string[])[] = [[nodeId]];
-
-          // Create execution plan with nodes as Record (keyed by nodeId)
-          const plan: ExecutionPlan = {
-            id: `plan-${randomUUID()}`,
-            nodes: { [nodeId]: node },
-            parallelBatches,
-          };
-
-          return plan;
-        }),
+      delegateMany: (tools, dependencies = {}) =>
+        buildExecutionPlan(tools, dependencies),
+
+      /**
+       * Decompose goal via the planner model, then delegate the proposed
+       * tools as one multi-tool plan.
+       */
+      decompose: (goal) =>
+        requestTaskPlan(planner, goal).pipe(
+          Effect.flatMap(({ tools, dependencies }) =>
+            buildExecutionPlan(tools, dependencies)
+          )
+        ),
 
       /**
        * Validate workflow result by checking outputs.
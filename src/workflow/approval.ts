@@ -0,0 +1,220 @@
+/**
+ * Workflow Approvals - Human approval gates
+ *
+ * Tracks the questions `approval` steps are waiting on and settles them when
+ * an approve/reject decision arrives, the request expires or the execution
+ * is cancelled. Requests and decisions travel over the WebSocket layer via
+ * `bindApprovalGate`.
+ */
+
+import { z } from "zod";
+import type { WebSocketMessage } from "../communication/ws";
+import { TimeoutError, WorkflowError } from "../core/errors";
+import { generateId } from "./storage";
+
+/** `system_message` event broadcast when an approval is requested */
+export const APPROVAL_REQUESTED_EVENT = "approval_requested";
+/** Message type clients send to approve or reject a request */
+export const APPROVAL_RESPONSE_TYPE = "approval_response";
+
+export const ApprovalDecisionSchema = z.object({
+  requestId: z.string().min(1),
+  approved: z.boolean(),
+  reason: z.string().optional(),
+  respondedBy: z.string().optional(),
+});
+
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+export type ApprovalRequest = {
+  id: string;
+  planId: string;
+  stepId: string;
+  stepName: string;
+  question: string;
+  context: Record<string, unknown>;
+  requestedAt: number;
+  expiresAt?: number;
+};
+
+/**
+ * A decision together with the time it was received
+ */
+export type ApprovalResponse = ApprovalDecision & {
+  respondedAt: number;
+};
+
+export type ApprovalRequestInput = Omit<
+  ApprovalRequest,
+  "id" | "requestedAt" | "expiresAt"
+>;
+
+export type ApprovalRequestOptions = {
+  /** Milliseconds to wait before the request expires */
+  expiresIn?: number;
+  /** Aborting the signal withdraws the request */
+  signal?: AbortSignal;
+};
+
+type ApprovalListener = (request: ApprovalRequest) => void;
+
+type PendingApproval = {
+  request: ApprovalRequest;
+  settle: (response: ApprovalResponse) => void;
+};
+
+/**
+ * Subset of the WebSocket server used to publish requests and receive
+ * decisions
+ */
+export type ApprovalTransport = {
+  broadcast(message: WebSocketMessage): Promise<unknown>;
+  onMessage(
+    handler: (message: WebSocketMessage, connectionId: string) => void
+  ): void;
+};
+
+/**
+ * ApprovalGate holds pending approval requests until they are decided
+ */
+export class ApprovalGate {
+  private readonly pending: Map<string, PendingApproval> = new Map();
+  private readonly listeners: ApprovalListener[] = [];
+
+  /**
+   * Register a listener notified of every new request
+   */
+  onRequest(listener: ApprovalListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Ask for a decision. Resolves with the decision, whether approved or
+   * rejected; rejects with a TimeoutError when the request expires and with
+   * a WorkflowError when the signal aborts.
+   */
+  request(
+    input: ApprovalRequestInput,
+    options: ApprovalRequestOptions = {}
+  ): Promise<ApprovalResponse> {
+    const { expiresIn, signal } = options;
+    const requestedAt = Date.now();
+    const request: ApprovalRequest = {
+      ...input,
+      id: generateId("approval"),
+      requestedAt,
+      expiresAt: expiresIn === undefined ? undefined : requestedAt + expiresIn,
+    };
+
+    if (signal?.aborted) {
+      return Promise.reject(this.cancellationError(request));
+    }
+
+    const result = new Promise<ApprovalResponse>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.pending.delete(request.id);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(this.cancellationError(request));
+      };
+
+      if (expiresIn !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(
+            new TimeoutError("Approval request expired", {
+              requestId: request.id,
+              stepId: request.stepId,
+              expiresIn,
+            })
+          );
+        }, expiresIn);
+      }
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending.set(request.id, {
+        request,
+        settle: (response) => {
+          cleanup();
+          resolve(response);
+        },
+      });
+    });
+
+    for (const listener of this.listeners) {
+      listener(request);
+    }
+
+    return result;
+  }
+
+  /**
+   * Settle a pending request. Returns false if the request is unknown or
+   * already settled.
+   */
+  respond(decision: ApprovalDecision): boolean {
+    const pending = this.pending.get(decision.requestId);
+
+    if (!pending) {
+      return false;
+    }
+
+    pending.settle({ ...decision, respondedAt: Date.now() });
+    return true;
+  }
+
+  /**
+   * Requests still waiting for a decision
+   */
+  getPendingRequests(): ApprovalRequest[] {
+    return Array.from(this.pending.values(), (pending) => pending.request);
+  }
+
+  private cancellationError(request: ApprovalRequest): WorkflowError {
+    return new WorkflowError("Approval request cancelled", {
+      requestId: request.id,
+      stepId: request.stepId,
+    });
+  }
+}
+
+/**
+ * Broadcast new approval requests as `system_message`s and settle requests
+ * from `approval_response` messages. Malformed responses are ignored.
+ */
+export function bindApprovalGate(
+  gate: ApprovalGate,
+  transport: ApprovalTransport
+): void {
+  gate.onRequest((request) => {
+    transport
+      .broadcast({
+        id: generateId("msg"),
+        type: "system_message",
+        timestamp: Date.now(),
+        payload: { event: APPROVAL_REQUESTED_EVENT, request },
+      })
+      .catch(() => {
+        // Clients that miss the broadcast can still respond by request ID
+      });
+  });
+
+  transport.onMessage((message) => {
+    if (message.type !== APPROVAL_RESPONSE_TYPE) {
+      return;
+    }
+
+    const decision = ApprovalDecisionSchema.safeParse(message.payload);
+
+    if (decision.success) {
+      gate.respond(decision.data);
+    }
+  });
+}
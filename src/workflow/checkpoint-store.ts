@@ -0,0 +1,208 @@
+/**
+ * Workflow Checkpoint Store - Persistent storage for workflow checkpoints
+ *
+ * Provides pluggable storage backends so checkpoints written during execution
+ * survive the process and can be used to resume plans later.
+ */
+
+import {
+  appendFile,
+  mkdir,
+  readFile,
+  rename,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { WorkflowError } from "../core/errors";
+import type { WorkflowCheckpoint } from "./recovery";
+import { isFileNotFound } from "./storage";
+
+export type CheckpointStore = {
+  save(checkpoint: WorkflowCheckpoint): Promise<void>;
+  load(checkpointId: string): Promise<WorkflowCheckpoint | null>;
+  /** Checkpoints sorted by timestamp, optionally limited to one plan */
+  list(planId?: string): Promise<WorkflowCheckpoint[]>;
+  delete(checkpointId: string): Promise<boolean>;
+  /** Reclaim the space left by deleted checkpoints, where the backend needs it */
+  compact?(): Promise<void>;
+};
+
+type CheckpointLogEntry =
+  | { op: "save"; checkpoint: WorkflowCheckpoint }
+  | { op: "delete"; checkpointId: string };
+
+/** Last write queued on each checkpoint log, keyed by absolute path */
+const logWrites: Map<string, Promise<unknown>> = new Map();
+
+/**
+ * Run a write on a checkpoint log once the writes queued before it have
+ * settled, so appends never land in a log that compaction is replacing.
+ * The queue is per file, so stores opened on the same log share it.
+ */
+function queueLogWrite<T>(path: string, write: () => Promise<T>): Promise<T> {
+  const key = resolve(path);
+  const result = (logWrites.get(key) ?? Promise.resolve()).then(write);
+  const settled = Promise.allSettled([result]);
+
+  logWrites.set(key, settled);
+  settled.then(() => {
+    if (logWrites.get(key) === settled) {
+      logWrites.delete(key);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Deep copy a checkpoint so stored state cannot be mutated by callers
+ */
+function cloneCheckpoint(checkpoint: WorkflowCheckpoint): WorkflowCheckpoint {
+  return structuredClone(checkpoint);
+}
+
+/**
+ * Filter checkpoints to a plan and sort them by timestamp. The sort is stable
+ * so checkpoints sharing a timestamp keep their write order.
+ */
+function selectCheckpoints(
+  checkpoints: Iterable<WorkflowCheckpoint>,
+  planId?: string
+): WorkflowCheckpoint[] {
+  return Array.from(checkpoints)
+    .filter(
+      (checkpoint) => planId === undefined || checkpoint.planId === planId
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * In-memory checkpoint store, useful for tests and single-process execution
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly checkpoints: Map<string, WorkflowCheckpoint> = new Map();
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.id, cloneCheckpoint(checkpoint));
+  }
+
+  async load(checkpointId: string): Promise<WorkflowCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(checkpointId);
+    return checkpoint ? cloneCheckpoint(checkpoint) : null;
+  }
+
+  async list(planId?: string): Promise<WorkflowCheckpoint[]> {
+    return selectCheckpoints(this.checkpoints.values(), planId).map(
+      cloneCheckpoint
+    );
+  }
+
+  async delete(checkpointId: string): Promise<boolean> {
+    return this.checkpoints.delete(checkpointId);
+  }
+}
+
+/**
+ * Append-only JSONL checkpoint store. Saves and deletes are appended as log
+ * entries and replayed on read; `compact` rewrites the log with only the
+ * live checkpoints. Appends and compaction of a log run one at a time.
+ */
+export class FileSystemCheckpointStore implements CheckpointStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    await this.append({ op: "save", checkpoint });
+  }
+
+  async load(checkpointId: string): Promise<WorkflowCheckpoint | null> {
+    const checkpoints = await this.replay();
+    return checkpoints.get(checkpointId) ?? null;
+  }
+
+  async list(planId?: string): Promise<WorkflowCheckpoint[]> {
+    const checkpoints = await this.replay();
+    return selectCheckpoints(checkpoints.values(), planId);
+  }
+
+  async delete(checkpointId: string): Promise<boolean> {
+    const checkpoints = await this.replay();
+
+    if (!checkpoints.has(checkpointId)) {
+      return false;
+    }
+
+    await this.append({ op: "delete", checkpointId });
+    return true;
+  }
+
+  /**
+   * Rewrite the log so it only contains live checkpoints
+   */
+  compact(): Promise<void> {
+    return queueLogWrite(this.path, async () => {
+      const checkpoints = await this.replay();
+      const lines = Array.from(checkpoints.values()).map(
+        (checkpoint) => `${JSON.stringify({ op: "save", checkpoint })}\n`
+      );
+      const tempPath = `${this.path}.tmp`;
+
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tempPath, lines.join(""), "utf-8");
+      await rename(tempPath, this.path);
+    });
+  }
+
+  private append(entry: CheckpointLogEntry): Promise<void> {
+    return queueLogWrite(this.path, async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`, "utf-8");
+    });
+  }
+
+  private async replay(): Promise<Map<string, WorkflowCheckpoint>> {
+    const checkpoints: Map<string, WorkflowCheckpoint> = new Map();
+    let contents: string;
+
+    try {
+      contents = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return checkpoints;
+      }
+      throw error;
+    }
+
+    const lines = contents.split("\n").filter((line) => line.trim());
+
+    for (const [index, line] of lines.entries()) {
+      let entry: CheckpointLogEntry;
+
+      try {
+        entry = JSON.parse(line) as CheckpointLogEntry;
+      } catch (error) {
+        // A torn final line is left behind when a write is interrupted
+        if (index === lines.length - 1) {
+          break;
+        }
+
+        throw new WorkflowError("Corrupt checkpoint log", {
+          path: this.path,
+          line: index + 1,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+
+      if (entry.op === "save") {
+        checkpoints.set(entry.checkpoint.id, entry.checkpoint);
+      } else {
+        checkpoints.delete(entry.checkpointId);
+      }
+    }
+
+    return checkpoints;
+  }
+}
@@ -0,0 +1,401 @@
+/**
+ * Workflow Conditions - Step condition expressions
+ *
+ * Parses and evaluates the small expression language used by step
+ * `condition`s, branch `when` clauses and map `over` sources, e.g.
+ * `steps.code.output.files.length > 0 && context.verify == true`.
+ * Expressions are interpreted, never passed to `eval`.
+ */
+
+import { WorkflowError } from "../core/errors";
+import type { Branch } from "./schema";
+import type { StepOutputs } from "./template";
+
+export type ConditionScope = {
+  /** Outputs of upstream steps, keyed by step ID and step name */
+  steps: StepOutputs;
+  context: Record<string, unknown>;
+};
+
+type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+type ConditionNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "reference"; path: string[] }
+  | { kind: "not"; operand: ConditionNode }
+  | { kind: "and" | "or"; left: ConditionNode; right: ConditionNode }
+  | {
+      kind: "compare";
+      operator: ComparisonOperator;
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string };
+
+const TOKEN_PATTERN =
+  /\s*(?:(\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_$][\w$-]*)|(==|!=|>=|<=|&&|\|\||[!<>().[\]]))/y;
+
+const COMPARISON_OPERATORS = new Set(["==", "!=", ">", ">=", "<", "<="]);
+const ROOTS = new Set(["steps", "context"]);
+
+function conditionError(
+  message: string,
+  expression: string,
+  details: Record<string, unknown> = {}
+): WorkflowError {
+  return new WorkflowError(message, { expression, ...details });
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < expression.length) {
+    if (expression.slice(TOKEN_PATTERN.lastIndex).trim() === "") {
+      break;
+    }
+
+    const position = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+
+    if (!match) {
+      throw conditionError("Invalid condition expression", expression, {
+        position,
+      });
+    }
+
+    const [, number, doubleQuoted, singleQuoted, identifier, operator] = match;
+
+    if (number !== undefined) {
+      tokens.push({ type: "number", value: Number(number) });
+    } else if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      tokens.push({
+        type: "string",
+        value: (doubleQuoted ?? singleQuoted).replace(/\\(.)/g, "$1"),
+      });
+    } else if (identifier !== undefined) {
+      tokens.push({ type: "identifier", value: identifier });
+    } else {
+      tokens.push({ type: "operator", value: operator });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token stream
+ */
+class ConditionParser {
+  private readonly tokens: Token[];
+  private readonly expression: string;
+  private position = 0;
+
+  constructor(expression: string) {
+    this.expression = expression;
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+
+    if (this.position < this.tokens.length) {
+      throw this.error("Unexpected token");
+    }
+
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+
+    while (this.acceptOperator("||")) {
+      left = { kind: "or", left, right: this.parseAnd() };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+
+    while (this.acceptOperator("&&")) {
+      left = { kind: "and", left, right: this.parseNot() };
+    }
+
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.acceptOperator("!")) {
+      return { kind: "not", operand: this.parseNot() };
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+    const token = this.tokens[this.position];
+
+    if (token?.type === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+      this.position += 1;
+      return {
+        kind: "compare",
+        operator: token.value as ComparisonOperator,
+        left,
+        right: this.parsePrimary(),
+      };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.tokens[this.position];
+
+    if (!token) {
+      throw this.error("Unexpected end of expression");
+    }
+
+    this.position += 1;
+
+    if (token.type === "number" || token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (token.type === "operator") {
+      if (token.value !== "(") {
+        throw this.error("Unexpected token", token.value);
+      }
+
+      const node = this.parseOr();
+      this.expectOperator(")");
+      return node;
+    }
+
+    switch (token.value) {
+      case "true":
+        return { kind: "literal", value: true };
+      case "false":
+        return { kind: "literal", value: false };
+      case "null":
+        return { kind: "literal", value: null };
+      default:
+        return this.parseReference(token.value);
+    }
+  }
+
+  private parseReference(root: string): ConditionNode {
+    if (!ROOTS.has(root)) {
+      throw this.error("Unknown condition reference", root);
+    }
+
+    const path = [root];
+
+    while (true) {
+      if (this.acceptOperator(".")) {
+        const token = this.tokens[this.position];
+        if (token?.type !== "identifier") {
+          throw this.error("Expected property name after '.'");
+        }
+        this.position += 1;
+        path.push(token.value);
+      } else if (this.acceptOperator("[")) {
+        const token = this.tokens[this.position];
+        if (token?.type !== "string" && token?.type !== "number") {
+          throw this.error("Expected string or number inside '[]'");
+        }
+        this.position += 1;
+        path.push(String(token.value));
+        this.expectOperator("]");
+      } else {
+        return { kind: "reference", path };
+      }
+    }
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.tokens[this.position];
+
+    if (token?.type === "operator" && token.value === value) {
+      this.position += 1;
+      return true;
+    }
+
+    return false;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.acceptOperator(value)) {
+      throw this.error(`Expected '${value}'`);
+    }
+  }
+
+  private error(message: string, token?: string): WorkflowError {
+    return conditionError(
+      `Invalid condition expression: ${message}`,
+      this.expression,
+      token === undefined ? {} : { token }
+    );
+  }
+}
+
+/**
+ * Parse a condition expression, throwing a WorkflowError on syntax errors
+ */
+export function parseCondition(expression: string): ConditionNode {
+  return new ConditionParser(expression).parse();
+}
+
+/**
+ * Evaluate an expression against upstream outputs and plan context,
+ * returning the raw value rather than a boolean
+ */
+export function evaluateExpression(
+  expression: string,
+  scope: ConditionScope
+): unknown {
+  return evaluate(parseCondition(expression), scope, expression);
+}
+
+/**
+ * Evaluate a condition expression against upstream outputs and plan context
+ */
+export function evaluateCondition(
+  expression: string,
+  scope: ConditionScope
+): boolean {
+  return Boolean(evaluateExpression(expression, scope));
+}
+
+/**
+ * Select the first branch whose `when` clause holds. A branch without a
+ * `when` clause always matches, so it acts as the default.
+ */
+export function selectBranch(
+  branches: Branch[],
+  scope: ConditionScope
+): Branch | undefined {
+  return branches.find(
+    (branch) =>
+      branch.when === undefined || evaluateCondition(branch.when, scope)
+  );
+}
+
+function evaluate(
+  node: ConditionNode,
+  scope: ConditionScope,
+  expression: string
+): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "reference":
+      return resolveReference(node.path, scope, expression);
+    case "not":
+      return !evaluate(node.operand, scope, expression);
+    case "and":
+      return (
+        Boolean(evaluate(node.left, scope, expression)) &&
+        Boolean(evaluate(node.right, scope, expression))
+      );
+    case "or":
+      return (
+        Boolean(evaluate(node.left, scope, expression)) ||
+        Boolean(evaluate(node.right, scope, expression))
+      );
+    default:
+      return compare(
+        node.operator,
+        evaluate(node.left, scope, expression),
+        evaluate(node.right, scope, expression)
+      );
+  }
+}
+
+function compare(
+  operator: ComparisonOperator,
+  left: unknown,
+  right: unknown
+): boolean {
+  if (operator === "==") {
+    return left === right;
+  }
+
+  if (operator === "!=") {
+    return left !== right;
+  }
+
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+
+  if (!comparable) {
+    return false;
+  }
+
+  switch (operator) {
+    case ">":
+      return (left as number) > (right as number);
+    case ">=":
+      return (left as number) >= (right as number);
+    case "<":
+      return (left as number) < (right as number);
+    default:
+      return (left as number) <= (right as number);
+  }
+}
+
+/**
+ * Resolve `steps.<ref>.output.<path>` or `context.<path>`. Unknown step
+ * references throw; missing properties resolve to undefined.
+ */
+function resolveReference(
+  path: string[],
+  scope: ConditionScope,
+  expression: string
+): unknown {
+  const [root, ...rest] = path;
+  let current: unknown;
+  let segments: string[];
+
+  if (root === "steps") {
+    const [stepRef, output, ...outputPath] = rest;
+
+    if (stepRef === undefined || output !== "output") {
+      throw conditionError(
+        "Invalid condition expression: step references must read 'steps.<ref>.output'",
+        expression
+      );
+    }
+
+    if (!Object.hasOwn(scope.steps, stepRef)) {
+      throw conditionError("Unresolved condition reference", expression, {
+        stepRef,
+        reason: "Referenced step is not a dependency of this step",
+      });
+    }
+
+    current = scope.steps[stepRef];
+    segments = outputPath;
+  } else {
+    current = scope.context;
+    segments = rest;
+  }
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") {
+      return;
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
@@ -6,48 +6,41 @@
  */
 
 import { Effect } from "effect";
-
-// Core workflow types
-export type WorkflowStep = {
-  id: string;
-  name: string;
-  description: string;
-  status: "pending" | "running" | "completed" | "failed" | "paused";
-  input?: unknown;
-  output?: unknown;
-  error?: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
-  startTime?: number;
-  endTime?: number;
-  dependencies?: string[];
-};
-
-export type WorkflowPlan = {
-  id: string;
-  name: string;
-  description: string;
-  steps: WorkflowStep[];
-  config?: {
-    maxSteps?: number;
-    timeout?: number;
-    retryAttempts?: number;
-    retryDelay?: number;
-  };
-  context?: Record<string, unknown>;
-  createdAt: number;
-  updatedAt: number;
-};
-
-export type WorkflowContext = {
-  planId: string;
-  stepId: string;
-  data: Record<string, unknown>;
-  agentId?: string;
-  checkpoint?: string;
-};
+import type {
+  WorkflowExecutionStatus,
+  WorkflowUpdateMessage,
+} from "../contracts/workflow";
+import { WorkflowError } from "../core/errors";
+import {
+  DurationEstimator,
+  ESTIMATE_HISTORY_LIMIT,
+  estimatePlan,
+} from "./estimate";
+import {
+  createExecutionRecord,
+  type ExecutionHistoryQuery,
+  type ExecutionHistoryStore,
+  finishExecutionRecord,
+  generateExecutionId,
+  InMemoryExecutionHistoryStore,
+} from "./history";
+import { createWorkflowPlan } from "./plan";
+import {
+  type ExecutionContext,
+  type StepHandler,
+  WorkflowRunner,
+} from "./runner";
+import type {
+  StepType,
+  WorkflowExecutionRecord,
+  WorkflowPlan,
+  WorkflowPlanStatus,
+} from "./schema";
+import {
+  derivePlanStatus,
+  InMemoryWorkflowPlanStore,
+  type WorkflowPlanStore,
+} from "./store";
 
 export type CreatePlanConfig = {
   name?: string;
@@ -59,16 +52,85 @@ export type CreatePlanConfig = {
   context?: Record<string, unknown>;
 };
 
+/**
+ * Default handlers for the built-in step types. Agent step types (coder,
+ * browser) need live services and are registered by the caller.
+ */
+const BUILT_IN_HANDLERS: Partial<Record<StepType, StepHandler>> = {
+  // Implementation would initialize agent with configuration
+  agent_init: async () => ({
+    status: "completed",
+    output: "Agent initialized",
+  }),
+  // Implementation would validate model compatibility
+  model_validation: async () => ({
+    status: "completed",
+    output: "Model validated",
+  }),
+  // Implementation would create new agent
+  agent_creation: async () => ({
+    status: "completed",
+    output: "Agent created",
+  }),
+  // Implementation would execute workflow logic
+  action: async () => ({
+    status: "completed",
+    output: "Workflow step executed",
+  }),
+  // Implementation would handle real-time communication
+  communication: async () => ({
+    status: "completed",
+    output: "Communication established",
+  }),
+  // Implementation would create workflow checkpoint
+  checkpoint: async () => ({
+    status: "completed",
+    output: "Checkpoint created",
+  }),
+  // Implementation would handle error recovery
+  recovery: async () => ({
+    status: "completed",
+    output: "Recovery completed",
+  }),
+};
+
+/**
+ * Register the built-in handlers for step types the runner has no handler for
+ */
+export function registerBuiltInHandlers(runner: WorkflowRunner): void {
+  for (const [stepType, handler] of Object.entries(BUILT_IN_HANDLERS)) {
+    if (handler && !runner.hasHandler(stepType)) {
+      runner.registerHandler(stepType, handler);
+    }
+  }
+}
+
 export class WorkflowEngine {
+  private readonly store: WorkflowPlanStore;
+  private readonly runner: WorkflowRunner;
+  private readonly history: ExecutionHistoryStore;
+  /** Plans of the runs this engine is executing, by execution ID */
+  private readonly runningPlans: Map<string, WorkflowPlan> = new Map();
+
+  constructor(
+    store: WorkflowPlanStore = new InMemoryWorkflowPlanStore(),
+    runner: WorkflowRunner = new WorkflowRunner({ planStore: store }),
+    history: ExecutionHistoryStore = new InMemoryExecutionHistoryStore()
+  ) {
+    this.store = store;
+    this.runner = runner;
+    this.history = history;
+    registerBuiltInHandlers(runner);
+    runner.onUpdate((update) => this.saveWaitingPlan(update));
+  }
+
   /**
    * Create a new workflow plan
    */
   createPlan(config: CreatePlanConfig): WorkflowPlan {
-    const plan: WorkflowPlan = {
-      id: this.generatePlanId(),
+    const plan = createWorkflowPlan({
       name: config.name || "AI Agent Workflow",
       description: config.description || "Automated AI agent execution plan",
-      steps: [],
       config: {
         maxSteps: config.maxSteps || 50,
         timeout: config.timeout || 300_000,
@@ -76,207 +138,205 @@ export class WorkflowEngine {
         retryDelay: config.retryDelay || 1000,
       },
       context: config.context || {},
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
+    });
 
-    return plan;
+    return { ...plan, status: "pending" };
   }
 
   /**
-   * Execute a workflow plan
+   * Execute a workflow plan loaded from the plan store. The steps run
+   * through the runner's graph execution, so update listeners, the plan
+   * timeout and the checkpoint policy apply. A failed step fails its
+   * dependents while the other steps keep running.
    */
   async executePlan(
     planId: string,
-    _config?: CreatePlanConfig
+    config?: CreatePlanConfig
   ): Promise<WorkflowPlan> {
     return Effect.runPromise(
       Effect.gen(this, function* (_) {
-        const plan = yield* _(Effect.tryPromise(() => this.loadPlan(planId)));
+        const plan = yield* _(Effect.promise(() => this.loadPlan(planId)));
         if (!plan) {
-          throw new Error(`Workflow plan ${planId} not found`);
+          return yield* _(
+            Effect.fail(
+              new WorkflowError(`Workflow plan ${planId} not found`, {
+                planId,
+              })
+            )
+          );
         }
 
-        const context: WorkflowContext = {
-          planId,
-          stepId: "",
-          data: {},
-        };
-
-        const results: WorkflowStep[] = [];
-
+        // Steps finished in a previous run are kept as-is
         for (const step of plan.steps) {
-          const stepContext = { ...context, stepId: step.id };
-
-          try {
-            const result = yield* _(
-              Effect.tryPromise(() => this.executeStep(step, stepContext))
-            );
-            results.push({
-              ...step,
-              status: "completed",
-              output: result,
-              endTime: Date.now(),
-            });
-          } catch (err) {
-            const errorMessage =
-              err instanceof Error ? err.message : String(err);
-            results.push({
-              ...step,
-              status: "failed",
-              error: {
-                code: "STEP_EXECUTION_FAILED",
-                message: `Step ${step.name} failed: ${errorMessage}`,
-                details: errorMessage,
-              },
-              endTime: Date.now(),
-            });
+          if (step.status !== "completed" && step.status !== "skipped") {
+            step.status = "pending";
+            step.error = undefined;
           }
         }
 
-        // Update plan with results
-        const updatedPlan: WorkflowPlan = {
-          ...plan,
-          steps: results,
-          updatedAt: Date.now(),
-        };
+        plan.status = "running";
+        plan.updatedAt = Date.now();
+        yield* _(Effect.promise(() => this.savePlan(plan)));
 
-        yield* _(Effect.tryPromise(() => this.savePlan(updatedPlan)));
-        return updatedPlan;
+        const context: ExecutionContext = {
+          planId,
+          stepId: "",
+          data: { ...plan.context, ...config?.context },
+          executionId: generateExecutionId(),
+        };
+        const run = createExecutionRecord(plan, {
+          executionId: context.executionId,
+          context: context.data,
+        });
+        yield* _(Effect.promise(() => this.history.save(run)));
+
+        this.runningPlans.set(run.executionId, plan);
+        const outcome = yield* _(
+          Effect.either(
+            Effect.tryPromise(() =>
+              this.runner.executeGraph(plan, context, {
+                continueOnError: true,
+              })
+            )
+          )
+        );
+        this.runningPlans.delete(run.executionId);
+        const error = outcome._tag === "Left" ? outcome.left.error : undefined;
+
+        plan.status =
+          error !== undefined || plan.steps.some((s) => s.status === "failed")
+            ? "failed"
+            : "completed";
+        plan.updatedAt = Date.now();
+
+        yield* _(Effect.promise(() => this.savePlan(plan)));
+        yield* _(
+          Effect.promise(() =>
+            this.history.save(finishExecutionRecord(run, plan, error))
+          )
+        );
+        return plan;
       })
     );
   }
 
   /**
-   * Execute a single workflow step
+   * Save a running plan when one of its steps starts or stops waiting for
+   * input, so the store shows it waiting even if the runner has no store
    */
-  private async executeStep(
-    step: WorkflowStep,
-    context: WorkflowContext
-  ): Promise<unknown> {
-    switch (step.name) {
-      case "agent_initialization":
-        return this.executeAgentInitialization(step, context);
-
-      case "model_validation":
-        return this.executeModelValidation(step, context);
+  private saveWaitingPlan(update: WorkflowUpdateMessage): void {
+    const plan = this.runningPlans.get(update.executionId);
 
-      case "agent_creation":
-        return this.executeAgentCreation(step, context);
-
-      case "workflow_execution":
-        return this.executeWorkflowStep(step, context);
-
-      case "communication":
-        return this.executeCommunication(step, context);
-
-      case "checkpoint":
-        return this.executeCheckpoint(step, context);
-
-      case "recovery":
-        return this.executeRecovery(step, context);
-
-      default:
-        throw new Error(`Unknown workflow step: ${step.name}`);
+    if (update.type !== "step_update" || !plan) {
+      return;
     }
-  }
 
-  /**
-   * Execute agent initialization step
-   */
-  private async executeAgentInitialization(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would initialize agent with configuration
-    return { status: "completed", output: "Agent initialized" };
+    plan.updatedAt = Date.now();
+    this.store.save(plan).catch((error: unknown) => {
+      console.error("Failed to save workflow plan waiting for input:", error);
+    });
   }
 
   /**
-   * Execute model validation step
+   * Get the status of the latest recorded execution of a plan
    */
-  private async executeModelValidation(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would validate model compatibility
-    return { status: "completed", output: "Model validated" };
+  async getExecutionStatus(
+    planId: string
+  ): Promise<WorkflowExecutionStatus | null> {
+    const plan = await this.loadPlan(planId);
+    const [execution] = await this.history.list({ planId, limit: 1 });
+
+    if (!(plan && execution)) {
+      return null;
+    }
+
+    const currentStep = plan.steps.findIndex((s) => s.status === "running");
+    const estimatedCompletion =
+      execution.completedAt === undefined
+        ? await this.estimateCompletion(plan)
+        : undefined;
+
+    return {
+      executionId: execution.executionId,
+      planId,
+      status: derivePlanStatus(plan),
+      steps: plan.steps.map((step) => ({
+        ...step,
+        duration: this.runner.getStepStatus(step).duration,
+      })),
+      startedAt: execution.startedAt,
+      currentStep: currentStep >= 0 ? currentStep : undefined,
+      completedAt: execution.completedAt,
+      estimatedCompletion,
+    };
   }
 
   /**
-   * Execute agent creation step
+   * Estimate when a running plan finishes from the step durations of its
+   * recorded runs
    */
-  private async executeAgentCreation(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would create new agent
-    return { status: "completed", output: "Agent created" };
+  private async estimateCompletion(plan: WorkflowPlan): Promise<number> {
+    const durations = new DurationEstimator();
+    durations.recordExecutions(
+      await this.history.list({
+        planId: plan.id,
+        limit: ESTIMATE_HISTORY_LIMIT,
+      })
+    );
+
+    return estimatePlan(plan, durations).estimatedCompletion;
   }
 
   /**
-   * Execute workflow step
+   * List recorded runs, newest first, e.g. the last 20 runs of a plan
    */
-  private async executeWorkflowStep(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would execute workflow logic
-    return { status: "completed", output: "Workflow step executed" };
+  async listExecutions(
+    query: ExecutionHistoryQuery = {}
+  ): Promise<WorkflowExecutionRecord[]> {
+    return this.history.list(query);
   }
 
   /**
-   * Execute communication step
+   * Load the record of a single run
    */
-  private async executeCommunication(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would handle real-time communication
-    return { status: "completed", output: "Communication established" };
+  async getExecution(
+    executionId: string
+  ): Promise<WorkflowExecutionRecord | null> {
+    return this.history.load(executionId);
   }
 
   /**
-   * Execute checkpoint step
+   * Load workflow plan from storage
    */
-  private async executeCheckpoint(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would create workflow checkpoint
-    return { status: "completed", output: "Checkpoint created" };
+  async loadPlan(planId: string): Promise<WorkflowPlan | null> {
+    return this.store.load(planId);
   }
 
   /**
-   * Execute recovery step
+   * Save workflow plan to storage
    */
-  private async executeRecovery(
-    _step: WorkflowStep,
-    _context: WorkflowContext
-  ): Promise<unknown> {
-    // Implementation would handle error recovery
-    return { status: "completed", output: "Recovery completed" };
+  async savePlan(plan: WorkflowPlan): Promise<void> {
+    await this.store.save(plan);
   }
 
   /**
-   * Generate unique plan ID
+   * List all stored workflow plans
    */
-  private generatePlanId(): string {
-    return `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async listPlans(): Promise<WorkflowPlan[]> {
+    return this.store.list();
   }
 
   /**
-   * Load workflow plan from storage
+   * Delete a stored workflow plan
    */
-  private async loadPlan(_planId: string): Promise<WorkflowPlan | null> {
-    // Implementation would load from persistent storage
-    return null; // Placeholder
+  async deletePlan(planId: string): Promise<boolean> {
+    return this.store.delete(planId);
   }
 
   /**
-   * Save workflow plan to storage
+   * Find stored workflow plans by status
    */
-  private async savePlan(_plan: WorkflowPlan): Promise<void> {
-    // Implementation would save to persistent storage
+  async findPlansByStatus(status: WorkflowPlanStatus): Promise<WorkflowPlan[]> {
+    return this.store.findByStatus(status);
   }
 }
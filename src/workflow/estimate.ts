@@ -0,0 +1,208 @@
+/**
+ * Workflow Estimates - Critical path and completion time of plans
+ *
+ * Learns how long steps take from finished steps and recorded runs, then
+ * walks the dependency graph to find the longest remaining chain of steps.
+ * That chain bounds how soon the plan can finish, however many steps run in
+ * parallel.
+ */
+
+import { resolveDependencies } from "./plan";
+import type {
+  WorkflowExecutionRecord,
+  WorkflowPlan,
+  WorkflowStepDefinition,
+} from "./schema";
+
+export type PlanEstimate = {
+  /** IDs of the steps on the longest remaining chain, in execution order */
+  criticalPath: string[];
+  /** Estimated duration of the whole plan in milliseconds */
+  expectedDuration: number;
+  /** Estimated time until the plan finishes in milliseconds */
+  remainingDuration: number;
+  /** Estimated completion timestamp */
+  estimatedCompletion: number;
+  /** IDs of unfinished steps without any duration data, counted as 0 */
+  unestimatedSteps: string[];
+};
+
+/** Number of recorded runs of a plan its estimates are based on */
+export const ESTIMATE_HISTORY_LIMIT = 20;
+
+type DurationSample = {
+  total: number;
+  count: number;
+};
+
+type StepIdentity = {
+  name: string;
+  type: string;
+};
+
+/**
+ * DurationEstimator keeps the mean duration of finished steps by step name
+ * and by step type. Steps are estimated from runs of the same step name
+ * where available, falling back to other steps of the same type.
+ */
+export class DurationEstimator {
+  private readonly byName: Map<string, DurationSample> = new Map();
+  private readonly byType: Map<string, DurationSample> = new Map();
+
+  /**
+   * Record how long a completed step took
+   */
+  record(step: StepIdentity, duration: number): void {
+    addSample(this.byName, step.name, duration);
+    addSample(this.byType, step.type, duration);
+  }
+
+  /**
+   * Record the completed steps of past runs. Steps carried over from an
+   * earlier run are only counted by the run that executed them.
+   */
+  recordExecutions(executions: WorkflowExecutionRecord[]): void {
+    for (const execution of executions) {
+      for (const step of execution.steps) {
+        if (
+          step.status === "completed" &&
+          step.duration !== undefined &&
+          step.startTime !== undefined &&
+          step.startTime >= execution.startedAt
+        ) {
+          this.record(step, step.duration);
+        }
+      }
+    }
+  }
+
+  /**
+   * Mean duration of the step in milliseconds, or undefined without data
+   */
+  estimate(step: StepIdentity): number | undefined {
+    return mean(this.byName.get(step.name)) ?? mean(this.byType.get(step.type));
+  }
+}
+
+/**
+ * Estimate the duration and completion time of a plan. Finished steps count
+ * with their actual duration, running steps with the time they are expected
+ * to need beyond what they have used so far.
+ */
+export function estimatePlan(
+  plan: WorkflowPlan,
+  estimator: DurationEstimator,
+  now: number = Date.now()
+): PlanEstimate {
+  const unestimatedSteps: string[] = [];
+
+  const expected = longestPath(plan, (step) => {
+    if (isFinished(step)) {
+      return actualDuration(step);
+    }
+
+    const estimate = estimator.estimate(step);
+
+    if (estimate === undefined) {
+      unestimatedSteps.push(step.id);
+    }
+
+    return Math.max(estimate ?? 0, elapsed(step, now));
+  });
+  const remaining = longestPath(plan, (step) =>
+    isFinished(step)
+      ? 0
+      : Math.max((estimator.estimate(step) ?? 0) - elapsed(step, now), 0)
+  );
+
+  return {
+    criticalPath: remaining.path,
+    expectedDuration: expected.duration,
+    remainingDuration: remaining.duration,
+    estimatedCompletion: now + remaining.duration,
+    unestimatedSteps,
+  };
+}
+
+/**
+ * Find the chain of dependent steps with the largest total weight. Steps of
+ * weight 0 are left out of the returned path.
+ */
+function longestPath(
+  plan: WorkflowPlan,
+  weight: (step: WorkflowStepDefinition) => number
+): { duration: number; path: string[] } {
+  const weights: Map<string, number> = new Map();
+  const finish: Map<string, number> = new Map();
+  const previous: Map<string, string> = new Map();
+  let last: string | undefined;
+  let duration = 0;
+
+  for (const step of resolveDependencies(plan)) {
+    let start = 0;
+
+    for (const dependencyId of step.dependencies) {
+      const dependencyFinish = finish.get(dependencyId) ?? 0;
+
+      if (!previous.has(step.id) || dependencyFinish > start) {
+        start = dependencyFinish;
+        previous.set(step.id, dependencyId);
+      }
+    }
+
+    const stepWeight = weight(step);
+    weights.set(step.id, stepWeight);
+    finish.set(step.id, start + stepWeight);
+
+    if (last === undefined || start + stepWeight > duration) {
+      last = step.id;
+      duration = start + stepWeight;
+    }
+  }
+
+  const path: string[] = [];
+
+  for (let current = last; current !== undefined; ) {
+    if ((weights.get(current) ?? 0) > 0) {
+      path.unshift(current);
+    }
+    current = previous.get(current);
+  }
+
+  return { duration, path };
+}
+
+function isFinished(step: WorkflowStepDefinition): boolean {
+  return (
+    step.status === "completed" ||
+    step.status === "failed" ||
+    step.status === "skipped"
+  );
+}
+
+function actualDuration(step: WorkflowStepDefinition): number {
+  return step.startTime !== undefined && step.endTime !== undefined
+    ? step.endTime - step.startTime
+    : 0;
+}
+
+function elapsed(step: WorkflowStepDefinition, now: number): number {
+  return step.startTime !== undefined && !isFinished(step)
+    ? now - step.startTime
+    : 0;
+}
+
+function addSample(
+  samples: Map<string, DurationSample>,
+  key: string,
+  duration: number
+): void {
+  const sample = samples.get(key) ?? { total: 0, count: 0 };
+  sample.total += duration;
+  sample.count += 1;
+  samples.set(key, sample);
+}
+
+function mean(sample: DurationSample | undefined): number | undefined {
+  return sample ? sample.total / sample.count : undefined;
+}
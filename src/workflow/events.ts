@@ -0,0 +1,45 @@
+/**
+ * Workflow Events - Forwarding runner updates to WebSocket clients
+ *
+ * The runner reports plan and step progress as `WorkflowUpdateMessage`s to
+ * listeners registered with `onUpdate`. `forwardWorkflowUpdates` relays them
+ * to connected clients as `system_message`s.
+ */
+
+import type { WebSocketMessage } from "../communication/ws";
+import type { WorkflowRunner } from "./runner";
+import { generateId } from "./storage";
+
+/** `system_message` event broadcast for every workflow update */
+export const WORKFLOW_UPDATE_EVENT = "workflow_update";
+
+export type WorkflowUpdateSource = Pick<WorkflowRunner, "onUpdate">;
+
+/**
+ * Subset of the WebSocket server used to publish updates
+ */
+export type WorkflowUpdateTransport = {
+  broadcast(message: WebSocketMessage): Promise<unknown>;
+};
+
+/**
+ * Broadcast every update of a runner as a `system_message`. Returns a
+ * function that stops forwarding.
+ */
+export function forwardWorkflowUpdates(
+  source: WorkflowUpdateSource,
+  transport: WorkflowUpdateTransport
+): () => void {
+  return source.onUpdate((update) => {
+    transport
+      .broadcast({
+        id: generateId("msg"),
+        type: "system_message",
+        timestamp: update.timestamp,
+        payload: { event: WORKFLOW_UPDATE_EVENT, update },
+      })
+      .catch(() => {
+        // Progress updates are best effort; the plan store holds the state
+      });
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * Workflow Execution Control - Pause, resume and cancellation
+ *
+ * Lets callers steer a running workflow: pausing stops new steps from being
+ * scheduled, cancelling additionally aborts in-flight handlers through an
+ * AbortSignal.
+ */
+
+export type ExecutionControlState = "running" | "paused" | "cancelled";
+
+/**
+ * Handle returned by the runner's start methods
+ */
+export type ExecutionHandle = {
+  /** Resolves with the step results once execution finishes */
+  readonly result: Promise<unknown[]>;
+  /** Signal passed to step handlers, aborted on cancel */
+  readonly signal: AbortSignal;
+  readonly state: ExecutionControlState;
+  pause(): void;
+  resume(): void;
+  cancel(reason?: string): void;
+};
+
+/**
+ * ExecutionController tracks the control state of a single execution and
+ * notifies the scheduler whenever it changes
+ */
+export class ExecutionController {
+  private currentState: ExecutionControlState = "running";
+  private readonly abortController = new AbortController();
+  private listeners: Array<() => void> = [];
+
+  get state(): ExecutionControlState {
+    return this.currentState;
+  }
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.currentState === "paused";
+  }
+
+  get isCancelled(): boolean {
+    return this.currentState === "cancelled";
+  }
+
+  /**
+   * Stop scheduling new steps; running steps finish normally
+   */
+  pause(): void {
+    if (this.currentState !== "running") {
+      return;
+    }
+
+    this.currentState = "paused";
+    this.notify();
+  }
+
+  /**
+   * Continue scheduling steps after a pause
+   */
+  resume(): void {
+    if (this.currentState !== "paused") {
+      return;
+    }
+
+    this.currentState = "running";
+    this.notify();
+  }
+
+  /**
+   * Stop scheduling new steps and abort running handlers
+   */
+  cancel(reason = "Workflow execution cancelled"): void {
+    if (this.currentState === "cancelled") {
+      return;
+    }
+
+    this.currentState = "cancelled";
+    this.abortController.abort(reason);
+    this.notify();
+  }
+
+  /**
+   * Resolve the next time the control state changes
+   */
+  nextChange(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.listeners.push(resolve);
+    });
+  }
+
+  private notify(): void {
+    const listeners = this.listeners;
+    this.listeners = [];
+
+    for (const listener of listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Workflow Handlers - Big 3 agent step handlers
+ *
+ * Step handlers that dispatch workflow steps to the coder (Claude) and
+ * browser (Gemini) agents and record checkpoints through a RecoveryManager.
+ */
+
+import { Effect } from "effect";
+import { WorkflowError } from "../core/errors";
+import type { BrowserService } from "../services/BrowserService.js";
+import type { CoderService } from "../services/CoderService.js";
+import type { RecoveryManager } from "./recovery";
+import type { StepHandler, WorkflowRunner } from "./runner";
+import type { WorkflowPlan, WorkflowStepDefinition } from "./schema";
+
+export type Big3HandlerServices = {
+  coder: CoderService;
+  browser: BrowserService;
+  recovery?: RecoveryManager;
+  getPlan?: (planId: string) => WorkflowPlan | undefined;
+};
+
+/**
+ * Read a required string field from the resolved step input
+ */
+function requireString(
+  input: Record<string, unknown>,
+  field: string,
+  step: WorkflowStepDefinition
+): string {
+  const value = input[field];
+
+  if (typeof value !== "string" || !value.trim()) {
+    throw new WorkflowError(
+      `Step input '${field}' must be a non-empty string`,
+      {
+        stepId: step.id,
+        stepName: step.name,
+        field,
+      }
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Create handlers for the coder, browser and checkpoint step types
+ */
+export function createBig3Handlers(
+  services: Big3HandlerServices
+): Record<"coder" | "browser" | "checkpoint", StepHandler> {
+  return {
+    coder: async (step, context) => {
+      const input = context.input ?? step.input ?? {};
+      const instruction = requireString(input, "instruction", step);
+      const session =
+        typeof input.session === "string" ? input.session : "default-session";
+
+      // Aborting the step (cancel, timeout, plan deadline) interrupts the call
+      return Effect.runPromise(services.coder.execute(session, instruction), {
+        signal: context.signal,
+      });
+    },
+
+    browser: async (step, context) => {
+      const input = context.input ?? step.input ?? {};
+      const task = requireString(input, "task", step);
+
+      return Effect.runPromise(
+        Effect.gen(function* (_) {
+          if (typeof input.url === "string" && input.url) {
+            yield* _(services.browser.navigate(input.url));
+          }
+          return yield* _(services.browser.act(task));
+        }),
+        { signal: context.signal }
+      );
+    },
+
+    checkpoint: async (step, context) => {
+      const plan = services.getPlan?.(context.planId);
+
+      if (!(services.recovery && plan)) {
+        return { checkpointed: false };
+      }
+
+      const completed = plan.steps.filter((s) => s.status === "completed");
+      const checkpoint = await services.recovery.createRecoveryPoint(
+        plan,
+        completed,
+        { reason: "checkpoint_step", stepId: step.id }
+      );
+
+      return { checkpointed: true, checkpointId: checkpoint.id };
+    },
+  };
+}
+
+/**
+ * Register the Big 3 handlers on a runner
+ */
+export function registerBig3Handlers(
+  runner: WorkflowRunner,
+  services: Big3HandlerServices
+): void {
+  for (const [stepType, handler] of Object.entries(
+    createBig3Handlers(services)
+  )) {
+    runner.registerHandler(stepType, handler);
+  }
+}
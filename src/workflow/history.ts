@@ -0,0 +1,271 @@
+/**
+ * Workflow Execution History - Records of past plan runs
+ *
+ * Running a plan overwrites its step statuses in place. The runner and the
+ * engine therefore write one execution record per run, holding a snapshot
+ * of every step, so earlier runs can be listed and compared.
+ */
+
+import { classifyError } from "./retry";
+import {
+  type StepRun,
+  type WorkflowExecutionRecord,
+  WorkflowExecutionRecordSchema,
+  type WorkflowPlan,
+  type WorkflowPlanStatus,
+} from "./schema";
+import { generateId, JsonFileDirectory } from "./storage";
+
+export type ExecutionHistoryQuery = {
+  planId?: string;
+  status?: WorkflowPlanStatus;
+  /** Maximum number of records to return, newest first */
+  limit?: number;
+};
+
+export type ExecutionHistoryStore = {
+  save(execution: WorkflowExecutionRecord): Promise<void>;
+  load(executionId: string): Promise<WorkflowExecutionRecord | null>;
+  /** Records matching the query, newest first */
+  list(query?: ExecutionHistoryQuery): Promise<WorkflowExecutionRecord[]>;
+  delete(executionId: string): Promise<boolean>;
+};
+
+/**
+ * How often a step failed across a set of runs
+ */
+export type StepFailureSummary = {
+  stepName: string;
+  /** Runs in which the step completed or failed */
+  runs: number;
+  failures: number;
+  failureRate: number;
+  /** Error of the most recent failure */
+  lastError?: { code: string; message: string };
+};
+
+export function generateExecutionId(): string {
+  return generateId("exec");
+}
+
+/**
+ * Start the record of a run of a plan
+ */
+export function createExecutionRecord(
+  plan: WorkflowPlan,
+  options: { executionId?: string; context?: Record<string, unknown> } = {}
+): WorkflowExecutionRecord {
+  return {
+    executionId: options.executionId ?? generateExecutionId(),
+    planId: plan.id,
+    planName: plan.name,
+    status: "running",
+    context: options.context ?? {},
+    startedAt: Date.now(),
+    steps: snapshotSteps(plan),
+  };
+}
+
+/**
+ * Complete the record of a run with the final state of its plan. The run
+ * failed if an error ended it or any of its steps failed.
+ */
+export function finishExecutionRecord(
+  execution: WorkflowExecutionRecord,
+  plan: WorkflowPlan,
+  error?: unknown
+): WorkflowExecutionRecord {
+  const completedAt = Date.now();
+  const failed =
+    error !== undefined || plan.steps.some((step) => step.status === "failed");
+
+  return {
+    ...execution,
+    status: failed ? "failed" : "completed",
+    completedAt,
+    duration: completedAt - execution.startedAt,
+    error:
+      error === undefined
+        ? undefined
+        : {
+            code: classifyError(error),
+            message: error instanceof Error ? error.message : String(error),
+          },
+    steps: snapshotSteps(plan),
+  };
+}
+
+/**
+ * Rank steps by how often they failed in the given runs, most failures
+ * first. Steps are matched across runs by name.
+ */
+export function summarizeStepFailures(
+  executions: WorkflowExecutionRecord[]
+): StepFailureSummary[] {
+  const summaries: Map<string, StepFailureSummary> = new Map();
+  const oldestFirst = [...executions].sort((a, b) => a.startedAt - b.startedAt);
+
+  for (const execution of oldestFirst) {
+    for (const step of execution.steps) {
+      if (step.status !== "completed" && step.status !== "failed") {
+        continue;
+      }
+
+      const summary = summaries.get(step.name) ?? {
+        stepName: step.name,
+        runs: 0,
+        failures: 0,
+        failureRate: 0,
+      };
+
+      summary.runs += 1;
+
+      if (step.status === "failed") {
+        summary.failures += 1;
+        summary.lastError = step.error && {
+          code: step.error.code,
+          message: step.error.message,
+        };
+      }
+
+      summary.failureRate = summary.failures / summary.runs;
+      summaries.set(step.name, summary);
+    }
+  }
+
+  return Array.from(summaries.values()).sort(
+    (a, b) => b.failures - a.failures || b.failureRate - a.failureRate
+  );
+}
+
+/**
+ * Copy the state of every step of a plan. Error details are dropped since
+ * they may hold values that cannot be serialized, and inputs and outputs
+ * are copied as the JSON they are stored as.
+ */
+function snapshotSteps(plan: WorkflowPlan): StepRun[] {
+  return plan.steps.map((step) => ({
+    stepId: step.id,
+    name: step.name,
+    type: step.type,
+    status: step.status,
+    input: toJsonValue(step.input),
+    output: toJsonValue(step.output),
+    error: step.error && {
+      code: step.error.code,
+      message: step.error.message,
+    },
+    startTime: step.startTime,
+    endTime: step.endTime,
+    duration:
+      step.startTime !== undefined && step.endTime !== undefined
+        ? step.endTime - step.startTime
+        : undefined,
+    attempts: step.attempts?.length ?? 0,
+  }));
+}
+
+/**
+ * Copy a value through JSON, dropping what JSON cannot hold (functions,
+ * symbols). Values JSON cannot serialize at all, such as cyclic objects,
+ * are kept as their string form.
+ */
+function toJsonValue<T>(value: T): T {
+  try {
+    const json = JSON.stringify(value);
+    return json === undefined ? (undefined as T) : JSON.parse(json);
+  } catch {
+    return String(value) as T;
+  }
+}
+
+/**
+ * Filter records by plan and status, newest first, up to the query limit.
+ * Runs started in the same millisecond are listed in reverse save order.
+ */
+function selectExecutions(
+  executions: Iterable<WorkflowExecutionRecord>,
+  query: ExecutionHistoryQuery
+): WorkflowExecutionRecord[] {
+  const selected = Array.from(executions)
+    .reverse()
+    .filter(
+      (execution) =>
+        (query.planId === undefined || execution.planId === query.planId) &&
+        (query.status === undefined || execution.status === query.status)
+    )
+    .sort((a, b) => b.startedAt - a.startedAt);
+
+  return query.limit === undefined ? selected : selected.slice(0, query.limit);
+}
+
+/**
+ * Deep copy a record so stored state cannot be mutated by callers
+ */
+function cloneExecution(
+  execution: WorkflowExecutionRecord
+): WorkflowExecutionRecord {
+  return structuredClone(execution);
+}
+
+/**
+ * In-memory history store, useful for tests and single-process execution
+ */
+export class InMemoryExecutionHistoryStore implements ExecutionHistoryStore {
+  private readonly executions: Map<string, WorkflowExecutionRecord> = new Map();
+
+  async save(execution: WorkflowExecutionRecord): Promise<void> {
+    this.executions.set(execution.executionId, cloneExecution(execution));
+  }
+
+  async load(executionId: string): Promise<WorkflowExecutionRecord | null> {
+    const execution = this.executions.get(executionId);
+    return execution ? cloneExecution(execution) : null;
+  }
+
+  async list(
+    query: ExecutionHistoryQuery = {}
+  ): Promise<WorkflowExecutionRecord[]> {
+    return selectExecutions(this.executions.values(), query).map(
+      cloneExecution
+    );
+  }
+
+  async delete(executionId: string): Promise<boolean> {
+    return this.executions.delete(executionId);
+  }
+}
+
+/**
+ * File system history store, persisting one JSON file per run in a
+ * directory
+ */
+export class FileSystemExecutionHistoryStore implements ExecutionHistoryStore {
+  private readonly files: JsonFileDirectory<WorkflowExecutionRecord>;
+
+  constructor(directory: string) {
+    this.files = new JsonFileDirectory(directory, {
+      parse: (data) => WorkflowExecutionRecordSchema.parse(data),
+      name: "workflow execution",
+      idKey: "executionId",
+    });
+  }
+
+  async save(execution: WorkflowExecutionRecord): Promise<void> {
+    await this.files.save(execution.executionId, execution);
+  }
+
+  load(executionId: string): Promise<WorkflowExecutionRecord | null> {
+    return this.files.load(executionId);
+  }
+
+  async list(
+    query: ExecutionHistoryQuery = {}
+  ): Promise<WorkflowExecutionRecord[]> {
+    return selectExecutions(await this.files.list(), query);
+  }
+
+  delete(executionId: string): Promise<boolean> {
+    return this.files.delete(executionId);
+  }
+}
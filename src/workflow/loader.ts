@@ -0,0 +1,91 @@
+/**
+ * Workflow Loader - Workflow definition files
+ *
+ * Parses YAML or JSON workflow definition files into validated
+ * WorkflowPlanDefinition objects.
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { WorkflowError } from "../core/errors";
+import { validatePlanDefinition } from "./plan";
+import {
+  type WorkflowPlanDefinition,
+  WorkflowPlanDefinitionSchema,
+} from "./schema";
+
+export type WorkflowFileFormat = "yaml" | "json";
+
+/**
+ * Detect the definition format from a file extension
+ */
+export function detectWorkflowFormat(filePath: string): WorkflowFileFormat {
+  const extension = extname(filePath).toLowerCase();
+
+  switch (extension) {
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+    case ".json":
+      return "json";
+    default:
+      throw new WorkflowError("Unsupported workflow file extension", {
+        filePath,
+        extension,
+        supported: [".yaml", ".yml", ".json"],
+      });
+  }
+}
+
+/**
+ * Parse and validate a workflow definition from text
+ */
+export function parseWorkflowDefinition(
+  content: string,
+  format: WorkflowFileFormat
+): WorkflowPlanDefinition {
+  let raw: unknown;
+
+  try {
+    raw = format === "yaml" ? parseYaml(content) : JSON.parse(content);
+  } catch (error) {
+    throw new WorkflowError("Failed to parse workflow definition", {
+      format,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  const result = WorkflowPlanDefinitionSchema.safeParse(raw);
+  if (!result.success) {
+    throw new WorkflowError("Invalid workflow definition", {
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`
+      ),
+    });
+  }
+
+  validatePlanDefinition(result.data);
+  return result.data;
+}
+
+/**
+ * Load and validate a workflow definition file
+ */
+export async function loadWorkflowDefinition(
+  filePath: string
+): Promise<WorkflowPlanDefinition> {
+  const format = detectWorkflowFormat(filePath);
+
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    throw new WorkflowError("Failed to read workflow definition file", {
+      filePath,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  return parseWorkflowDefinition(content, format);
+}
@@ -6,81 +6,41 @@
  */
 
 import { WorkflowError } from "../core/errors";
-
-export type StepType =
-  | "action"
-  | "agent_init"
-  | "model_validation"
-  | "checkpoint"
-  | "recovery";
-
-export type WorkflowStepInput = {
-  name: string;
-  description?: string;
-  type: StepType;
-  input?: Record<string, unknown>;
-  config?: Record<string, unknown>;
-};
-
-export interface WorkflowStepDefinition extends WorkflowStepInput {
-  id: string;
-  status: "pending" | "running" | "completed" | "failed" | "paused";
-  dependencies: string[];
-  output?: unknown;
-  error?: {
-    code: string;
-    message: string;
-    details?: unknown;
-  };
-  startTime?: number;
-  endTime?: number;
-}
-
-export type PlanConfig = {
-  maxSteps?: number;
-  timeout?: number;
-  retryAttempts?: number;
-  retryDelay?: number;
-};
-
-export type WorkflowPlanInput = {
-  name: string;
-  description?: string;
-  config?: PlanConfig;
-  context?: Record<string, unknown>;
-};
-
-export type WorkflowPlan = {
-  id: string;
-  name: string;
-  description: string;
-  steps: WorkflowStepDefinition[];
-  config: Required<PlanConfig>;
-  context: Record<string, unknown>;
-  createdAt: number;
-  updatedAt: number;
-};
-
-export type WorkflowPlanDefinition = {
-  name: string;
-  description?: string;
-  steps: WorkflowStepInput[];
-  config?: PlanConfig;
-  context?: Record<string, unknown>;
-};
-
-const VALID_STEP_TYPES: StepType[] = [
-  "action",
-  "agent_init",
-  "model_validation",
-  "checkpoint",
-  "recovery",
+import { parseCondition } from "./condition";
+import {
+  type StepType,
+  StepTypeSchema,
+  type WorkflowPlan,
+  type WorkflowPlanDefinition,
+  WorkflowPlanDefinitionSchema,
+  type WorkflowPlanInput,
+  type WorkflowStepDefinition,
+  type WorkflowStepInput,
+  WorkflowStepInputSchema,
+} from "./schema";
+import { generateId } from "./storage";
+
+export type {
+  PlanConfig,
+  StepType,
+  WorkflowPlan,
+  WorkflowPlanDefinition,
+  WorkflowPlanInput,
+  WorkflowStepDefinition,
+  WorkflowStepInput,
+} from "./schema";
+
+const VALID_STEP_TYPES: StepType[] = StepTypeSchema.options;
+
+/** Step types the runner executes itself and that cannot be nested */
+const CONTROL_STEP_TYPES: StepType[] = [
+  "branch",
+  "map",
+  "loop",
+  "approval",
+  "subworkflow",
 ];
 
-function generateId(prefix: string): string {
-  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-}
-
 function isValidStepType(type: string): type is StepType {
   return VALID_STEP_TYPES.includes(type as StepType);
 }
@@ -275,7 +235,31 @@ export function validatePlanDefinition(
     throw new WorkflowError("Plan must have at least one step");
   }
 
+  const stepNames = validateStepNames(definition.steps);
+
   for (const step of definition.steps) {
+    validateStepDependencies(step, stepNames);
+    validateStepCondition(step);
+    validateControlStep(step, definition.steps);
+  }
+
+  const result = WorkflowPlanDefinitionSchema.safeParse(definition);
+  if (!result.success) {
+    throw new WorkflowError("Invalid workflow plan definition", {
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`
+      ),
+    });
+  }
+}
+
+/**
+ * Validate the name and type of every step, returning the step names
+ */
+function validateStepNames(steps: WorkflowStepInput[]): Set<string> {
+  const stepNames = new Set<string>();
+
+  for (const step of steps) {
     if (!step.name || typeof step.name !== "string") {
       throw new WorkflowError("Step name is required and must be a string");
     }
@@ -286,9 +270,215 @@ export function validatePlanDefinition(
         validTypes: VALID_STEP_TYPES,
       });
     }
+
+    if (stepNames.has(step.name)) {
+      throw new WorkflowError("Duplicate step name", { stepName: step.name });
+    }
+
+    stepNames.add(step.name);
+  }
+
+  return stepNames;
+}
+
+/**
+ * Validate that a step depends only on steps of its plan
+ */
+function validateStepDependencies(
+  step: WorkflowStepInput,
+  stepNames: Set<string>
+): void {
+  for (const dependencyName of step.dependsOn ?? []) {
+    if (!stepNames.has(dependencyName)) {
+      throw new WorkflowError("Unknown step dependency", {
+        stepName: step.name,
+        dependsOn: dependencyName,
+      });
+    }
+  }
+}
+
+function validateStepCondition(step: WorkflowStepInput): void {
+  if (step.condition !== undefined) {
+    parseCondition(step.condition);
+  }
+}
+
+/**
+ * Validate the configuration of a branch, map, loop, approval or
+ * subworkflow step
+ */
+function validateControlStep(
+  step: WorkflowStepInput,
+  steps: WorkflowStepInput[]
+): void {
+  switch (step.type) {
+    case "branch":
+      validateBranches(step, steps);
+      return;
+    case "map":
+      validateMap(step);
+      return;
+    case "loop":
+      validateLoop(step);
+      return;
+    case "approval":
+      if (!step.approval) {
+        throw new WorkflowError("Approval step requires an approval question", {
+          stepName: step.name,
+        });
+      }
+      return;
+    case "subworkflow":
+      validateSubworkflow(step);
+      return;
+    default:
+      return;
   }
 }
 
+/**
+ * Validate the branches of a branch step: each target must exist and depend
+ * on the branch step so it waits for the branch decision
+ */
+function validateBranches(
+  step: WorkflowStepInput,
+  steps: WorkflowStepInput[]
+): void {
+  if (!step.branches || step.branches.length === 0) {
+    throw new WorkflowError("Branch step requires at least one branch", {
+      stepName: step.name,
+    });
+  }
+
+  for (const branch of step.branches) {
+    if (branch.when !== undefined) {
+      parseCondition(branch.when);
+    }
+
+    for (const targetName of branch.steps) {
+      const target = steps.find((s) => s.name === targetName);
+
+      if (!target) {
+        throw new WorkflowError("Unknown branch step", {
+          stepName: step.name,
+          branch: branch.name,
+          target: targetName,
+        });
+      }
+
+      if (!target.dependsOn?.includes(step.name)) {
+        throw new WorkflowError(
+          "Branch target must depend on its branch step",
+          {
+            stepName: step.name,
+            branch: branch.name,
+            target: targetName,
+          }
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Validate a map step: its source must parse and its child must be a plain
+ * step type
+ */
+function validateMap(step: WorkflowStepInput): void {
+  if (!step.map) {
+    throw new WorkflowError("Map step requires a map configuration", {
+      stepName: step.name,
+    });
+  }
+
+  parseCondition(step.map.over);
+
+  if (
+    !isValidStepType(step.map.step.type) ||
+    CONTROL_STEP_TYPES.includes(step.map.step.type)
+  ) {
+    throw new WorkflowError("Invalid map child step type", {
+      stepName: step.name,
+      stepType: step.map.step.type,
+    });
+  }
+}
+
+/**
+ * Validate a loop step: its sub-plan must be a valid definition without
+ * nested control steps
+ */
+function validateLoop(step: WorkflowStepInput): void {
+  if (!step.loop) {
+    throw new WorkflowError("Loop step requires a loop configuration", {
+      stepName: step.name,
+    });
+  }
+
+  for (const subStep of step.loop.steps) {
+    if (CONTROL_STEP_TYPES.includes(subStep.type)) {
+      throw new WorkflowError("Loop steps cannot contain control steps", {
+        stepName: step.name,
+        subStep: subStep.name,
+        stepType: subStep.type,
+      });
+    }
+  }
+
+  validatePlanDefinition({ name: step.name, steps: step.loop.steps });
+
+  if (step.loop.until !== undefined) {
+    parseCondition(step.loop.until);
+  }
+}
+
+/**
+ * Validate a subworkflow step: it must name exactly one definition source,
+ * and an inline definition must itself be valid
+ */
+function validateSubworkflow(step: WorkflowStepInput): void {
+  const config = step.subworkflow;
+  const sources = config
+    ? [config.definition, config.file, config.planId].filter(
+        (source) => source !== undefined
+      )
+    : [];
+
+  if (sources.length !== 1) {
+    throw new WorkflowError(
+      "Subworkflow step requires exactly one of definition, file or planId",
+      { stepName: step.name }
+    );
+  }
+
+  if (config?.definition) {
+    parseSubworkflowDefinition(config.definition, step.name);
+  }
+}
+
+/**
+ * Parse and validate an inline subworkflow definition
+ */
+export function parseSubworkflowDefinition(
+  definition: Record<string, unknown>,
+  stepName: string
+): WorkflowPlanDefinition {
+  const result = WorkflowPlanDefinitionSchema.safeParse(definition);
+
+  if (!result.success) {
+    throw new WorkflowError("Invalid subworkflow definition", {
+      stepName,
+      issues: result.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`
+      ),
+    });
+  }
+
+  validatePlanDefinition(result.data);
+  return result.data;
+}
+
 /**
  * Create a plan from a definition
  */
@@ -311,9 +501,42 @@ export function createPlanFromDefinition(
     stepIdMap.set(stepInput.name, step.id);
   }
 
+  // Resolve named dependencies once every step has an ID
+  for (const stepInput of definition.steps) {
+    const stepId = stepIdMap.get(stepInput.name) as string;
+
+    for (const dependencyName of stepInput.dependsOn ?? []) {
+      addDependencyToPlan(
+        plan,
+        stepId,
+        stepIdMap.get(dependencyName) as string
+      );
+    }
+  }
+
   return plan;
 }
 
+/**
+ * Recover the definition of a plan, dropping all execution state
+ */
+export function planToDefinition(plan: WorkflowPlan): WorkflowPlanDefinition {
+  const stepNames = new Map(plan.steps.map((step) => [step.id, step.name]));
+
+  return {
+    name: plan.name,
+    description: plan.description,
+    config: plan.config,
+    context: plan.context,
+    steps: plan.steps.map((step) => ({
+      ...WorkflowStepInputSchema.parse(step),
+      dependsOn: step.dependencies.map(
+        (dependencyId) => stepNames.get(dependencyId) ?? dependencyId
+      ),
+    })),
+  };
+}
+
 /**
  * Get steps that depend on a given step
  */
@@ -342,7 +565,8 @@ export function getDependencies(
 }
 
 /**
- * Check if all dependencies of a step are completed
+ * Check if all dependencies of a step are completed. Skipped dependencies
+ * count as satisfied.
  */
 export function areAllDependenciesCompleted(
   plan: WorkflowPlan,
@@ -355,6 +579,9 @@ export function areAllDependenciesCompleted(
 
   return step.dependencies.every((depId) => {
     const depStep = plan.steps.find((s) => s.id === depId);
-    return depStep && depStep.status === "completed";
+    return (
+      depStep &&
+      (depStep.status === "completed" || depStep.status === "skipped")
+    );
   });
 }
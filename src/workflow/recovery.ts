@@ -5,8 +5,28 @@
  * resilient autonomous workflow execution with state recovery.
  */
 
+import { createHash } from "node:crypto";
 import { WorkflowError } from "../core/errors";
+import {
+  type CheckpointStore,
+  InMemoryCheckpointStore,
+} from "./checkpoint-store";
 import type { WorkflowPlan, WorkflowStepDefinition } from "./plan";
+import { generateId } from "./storage";
+
+/**
+ * State of a single step at checkpoint time
+ */
+export type StepSnapshot = Pick<
+  WorkflowStepDefinition,
+  | "status"
+  | "output"
+  | "error"
+  | "startTime"
+  | "endTime"
+  | "iterations"
+  | "subworkflowPlanId"
+>;
 
 export type WorkflowCheckpoint = {
   id: string;
@@ -14,15 +34,71 @@ export type WorkflowCheckpoint = {
   completedSteps: string[];
   timestamp: number;
   metadata: Record<string, unknown>;
+  /** Snapshot of every step, keyed by step ID */
+  steps: Record<string, StepSnapshot>;
+  /** Plan context at checkpoint time */
+  context: Record<string, unknown>;
+  /** Hash of the plan definition the checkpoint was taken against */
+  planHash: string;
 };
 
-export type CheckpointStore = Map<string, WorkflowCheckpoint>;
+export type { CheckpointStore } from "./checkpoint-store";
 
 export type CleanupOptions = {
   maxAge?: number;
   keep?: number;
 };
 
+/**
+ * Serialize a value as JSON with object keys in sorted order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Hash the definition of a plan, ignoring execution state such as step
+ * statuses, outputs and the plan context
+ */
+export function hashPlanDefinition(plan: WorkflowPlan): string {
+  const definition = {
+    name: plan.name,
+    description: plan.description,
+    config: plan.config,
+    steps: plan.steps.map((step) => ({
+      id: step.id,
+      name: step.name,
+      description: step.description,
+      type: step.type,
+      input: step.input,
+      config: step.config,
+      retry: step.retry,
+      timeout: step.timeout,
+      condition: step.condition,
+      branches: step.branches,
+      map: step.map,
+      loop: step.loop,
+      approval: step.approval,
+      subworkflow: step.subworkflow,
+      dependencies: step.dependencies,
+    })),
+  };
+
+  return createHash("sha256").update(stableStringify(definition)).digest("hex");
+}
+
 /**
  * Create a checkpoint representing current plan state
  */
@@ -31,12 +107,29 @@ export function createCheckpoint(
   completedSteps: WorkflowStepDefinition[],
   metadata: Record<string, unknown> = {}
 ): WorkflowCheckpoint {
+  const steps: Record<string, StepSnapshot> = {};
+
+  for (const step of plan.steps) {
+    steps[step.id] = structuredClone({
+      status: step.status,
+      output: step.output,
+      error: step.error,
+      startTime: step.startTime,
+      endTime: step.endTime,
+      iterations: step.iterations,
+      subworkflowPlanId: step.subworkflowPlanId,
+    });
+  }
+
   return {
-    id: `ckpt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    id: generateId("ckpt"),
     planId: plan.id,
     completedSteps: completedSteps.map((s) => s.id),
     timestamp: Date.now(),
     metadata,
+    steps,
+    context: structuredClone(plan.context),
+    planHash: hashPlanDefinition(plan),
   };
 }
 
@@ -47,7 +140,7 @@ export async function saveCheckpoint(
   store: CheckpointStore,
   checkpoint: WorkflowCheckpoint
 ): Promise<void> {
-  store.set(checkpoint.id, checkpoint);
+  await store.save(checkpoint);
 }
 
 /**
@@ -57,7 +150,7 @@ export async function loadCheckpoint(
   store: CheckpointStore,
   checkpointId: string
 ): Promise<WorkflowCheckpoint | null> {
-  return store.get(checkpointId) ?? null;
+  return store.load(checkpointId);
 }
 
 /**
@@ -66,7 +159,7 @@ export async function loadCheckpoint(
 export class RecoveryManager {
   private readonly store: CheckpointStore;
 
-  constructor(store: CheckpointStore) {
+  constructor(store: CheckpointStore = new InMemoryCheckpointStore()) {
     this.store = store;
   }
 
@@ -89,32 +182,15 @@ export class RecoveryManager {
   async getLatestCheckpoint(
     planId: string
   ): Promise<WorkflowCheckpoint | null> {
-    let latest: WorkflowCheckpoint | null = null;
-    let latestTime = 0;
-
-    for (const checkpoint of this.store.values()) {
-      if (checkpoint.planId === planId && checkpoint.timestamp > latestTime) {
-        latest = checkpoint;
-        latestTime = checkpoint.timestamp;
-      }
-    }
-
-    return latest;
+    const checkpoints = await this.store.list(planId);
+    return checkpoints.at(-1) ?? null;
   }
 
   /**
    * Get all checkpoints for a plan, sorted by timestamp
    */
   async getPreviousCheckpoints(planId: string): Promise<WorkflowCheckpoint[]> {
-    const checkpoints: WorkflowCheckpoint[] = [];
-
-    for (const checkpoint of this.store.values()) {
-      if (checkpoint.planId === planId) {
-        checkpoints.push(checkpoint);
-      }
-    }
-
-    return checkpoints.sort((a, b) => a.timestamp - b.timestamp);
+    return this.store.list(planId);
   }
 
   /**
@@ -126,7 +202,11 @@ export class RecoveryManager {
   ): Promise<WorkflowStepDefinition[]> {
     const completedStepIds = new Set(checkpoint.completedSteps);
 
-    return plan.steps.filter((step) => !completedStepIds.has(step.id));
+    return plan.steps.filter(
+      (step) =>
+        !completedStepIds.has(step.id) &&
+        checkpoint.steps[step.id]?.status !== "skipped"
+    );
   }
 
   /**
@@ -139,13 +219,39 @@ export class RecoveryManager {
     const completedStepIds = new Set(checkpoint.completedSteps);
 
     for (const step of plan.steps) {
+      const snapshot = checkpoint.steps[step.id];
+
       if (completedStepIds.has(step.id)) {
         step.status = "completed";
+        step.output = structuredClone(snapshot?.output);
+        step.error = undefined;
+        step.startTime = snapshot?.startTime;
+        step.endTime = snapshot?.endTime;
+        step.iterations = structuredClone(snapshot?.iterations);
+      } else if (snapshot?.status === "skipped") {
+        step.status = "skipped";
+        step.output = undefined;
+        step.error = undefined;
+        step.startTime = undefined;
+        step.endTime = snapshot.endTime;
       } else {
         step.status = "pending";
+        step.output = undefined;
+        step.error = undefined;
+        step.startTime = undefined;
+        step.endTime = undefined;
+        // Finished iterations of map and loop steps are not run again
+        step.iterations = structuredClone(
+          snapshot?.iterations?.filter(
+            (iteration) => iteration.status === "completed"
+          )
+        );
+        // Subworkflow steps resume their child plan from its own checkpoints
+        step.subworkflowPlanId = snapshot?.subworkflowPlanId;
       }
     }
 
+    plan.context = structuredClone(checkpoint.context);
     plan.updatedAt = Date.now();
   }
 
@@ -182,11 +288,12 @@ export class RecoveryManager {
    * Delete a checkpoint
    */
   async deleteCheckpoint(checkpointId: string): Promise<void> {
-    this.store.delete(checkpointId);
+    await this.store.delete(checkpointId);
   }
 
   /**
-   * Cleanup old checkpoints based on age or count
+   * Cleanup old checkpoints based on age or count, compacting the store
+   * once any were deleted
    */
   async cleanupOldCheckpoints(
     planId: string,
@@ -223,6 +330,10 @@ export class RecoveryManager {
     for (const id of toDelete) {
       await this.deleteCheckpoint(id);
     }
+
+    if (toDelete.length > 0) {
+      await this.store.compact?.();
+    }
   }
 
   /**
@@ -276,6 +387,11 @@ export class RecoveryManager {
       return false;
     }
 
+    // Verify checkpoint was taken against this revision of the plan
+    if (checkpoint.planHash !== hashPlanDefinition(plan)) {
+      return false;
+    }
+
     // Verify checkpoint timestamp is reasonable
     if (checkpoint.timestamp > Date.now() || checkpoint.timestamp < 0) {
       return false;
@@ -309,6 +425,9 @@ export class RecoveryManager {
         !(
           checkpoint.id &&
           checkpoint.planId &&
+          checkpoint.planHash &&
+          checkpoint.steps &&
+          checkpoint.context &&
           Array.isArray(checkpoint.completedSteps)
         )
       ) {
@@ -0,0 +1,114 @@
+/**
+ * Workflow Retry - Retry policies and error classification
+ *
+ * Classifies step failures into `ErrorCode`s and decides whether, and after
+ * how long, a failed step should be attempted again.
+ */
+
+import { ErrorCode, StructuredError } from "../core/errors";
+import type {
+  RetryPolicy,
+  WorkflowPlan,
+  WorkflowStepDefinition,
+} from "./schema";
+
+/**
+ * Error codes retried when a policy does not list its own
+ */
+export const DEFAULT_RETRYABLE_ERROR_CODES: readonly string[] = [
+  ErrorCode.RATE_LIMIT_ERROR,
+  ErrorCode.TIMEOUT_ERROR,
+  ErrorCode.NETWORK_ERROR,
+];
+
+const ERROR_CODES = new Set<string>(Object.values(ErrorCode));
+
+const NETWORK_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+]);
+
+/**
+ * Map a thrown value to an `ErrorCode`
+ */
+export function classifyError(error: unknown): ErrorCode {
+  if (error instanceof StructuredError) {
+    return error.code;
+  }
+
+  if (typeof error !== "object" || error === null) {
+    return ErrorCode.INTERNAL_ERROR;
+  }
+
+  const { code, name, status } = error as {
+    code?: unknown;
+    name?: unknown;
+    status?: unknown;
+  };
+
+  if (typeof code === "string") {
+    if (ERROR_CODES.has(code)) {
+      return code as ErrorCode;
+    }
+    if (code === "ETIMEDOUT") {
+      return ErrorCode.TIMEOUT_ERROR;
+    }
+    if (NETWORK_ERROR_CODES.has(code)) {
+      return ErrorCode.NETWORK_ERROR;
+    }
+  }
+
+  if (name === "TimeoutError") {
+    return ErrorCode.TIMEOUT_ERROR;
+  }
+
+  if (status === 429) {
+    return ErrorCode.RATE_LIMIT_ERROR;
+  }
+
+  if (status === 408 || status === 504) {
+    return ErrorCode.TIMEOUT_ERROR;
+  }
+
+  return ErrorCode.INTERNAL_ERROR;
+}
+
+/**
+ * Resolve the retry policy for a step, falling back to the plan's
+ * `retryAttempts`/`retryDelay` configuration
+ */
+export function resolveRetryPolicy(
+  plan: WorkflowPlan,
+  step: WorkflowStepDefinition
+): RetryPolicy {
+  if (step.retry) {
+    return step.retry;
+  }
+
+  return {
+    maxAttempts: (plan.config.retryAttempts ?? 0) + 1,
+    delay: plan.config.retryDelay,
+  };
+}
+
+/**
+ * Check whether an error code may be retried under a policy
+ */
+export function isRetryable(policy: RetryPolicy, code: string): boolean {
+  return (policy.retryOn ?? DEFAULT_RETRYABLE_ERROR_CODES).includes(code);
+}
+
+/**
+ * Delay in milliseconds before the given retry (1 for the first retry)
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  const base =
+    (policy.delay ?? 0) * (policy.backoffMultiplier ?? 2) ** (retry - 1);
+  const capped = Math.min(base, policy.maxDelay ?? Number.POSITIVE_INFINITY);
+  const jitter = policy.jitter ?? 0;
+
+  return Math.max(0, capped * (1 + (Math.random() * 2 - 1) * jitter));
+}
@@ -5,18 +5,79 @@
  * and retry logic for autonomous workflow execution.
  */
 
-import { WorkflowError } from "../core/errors";
+import type {
+  WorkflowUpdateMessage,
+  WorkflowUpdateType,
+} from "../contracts/workflow";
+import { ErrorCode, TimeoutError, WorkflowError } from "../core/errors";
+import type { WorkflowResult } from "../domain";
+import type { ApprovalGate, ApprovalResponse } from "./approval";
 import {
+  type ConditionScope,
+  evaluateCondition,
+  evaluateExpression,
+  selectBranch,
+} from "./condition";
+import {
+  DurationEstimator,
+  ESTIMATE_HISTORY_LIMIT,
+  estimatePlan,
+  type PlanEstimate,
+} from "./estimate";
+import { ExecutionController, type ExecutionHandle } from "./execution";
+import {
+  createExecutionRecord,
+  type ExecutionHistoryStore,
+  finishExecutionRecord,
+} from "./history";
+import { loadWorkflowDefinition } from "./loader";
+import {
+  areAllDependenciesCompleted,
+  createPlanFromDefinition,
+  getDependencies,
+  getDependentSteps,
+  parseSubworkflowDefinition,
+  planToDefinition,
   resolveDependencies,
   type WorkflowPlan,
   type WorkflowStepDefinition,
 } from "./plan";
+import type { RecoveryManager } from "./recovery";
+import {
+  classifyError,
+  getRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+} from "./retry";
+import type {
+  StepIteration,
+  WorkflowPlanDefinition,
+  WorkflowPlanStatus,
+} from "./schema";
+import type { WorkflowPlanStore } from "./store";
+import {
+  collectDependencyOutputs,
+  resolveTemplates,
+  type StepOutputs,
+  type TemplateLocals,
+} from "./template";
 
 export type ExecutionContext = {
   planId: string;
   stepId: string;
   data: Record<string, unknown>;
   agentId?: string;
+  /** Outputs of the step's dependencies, keyed by step ID and step name */
+  dependencyOutputs?: StepOutputs;
+  /** Step input with `{{steps.<ref>.output.<path>}}` templates resolved */
+  input?: Record<string, unknown>;
+  /** Aborted when the execution is cancelled or the step times out */
+  signal?: AbortSignal;
+  /**
+   * Run the steps belong to, reported in updates and recorded in the history.
+   * Generated by executeSequentially and executeGraph when not set.
+   */
+  executionId?: string;
 };
 
 export type RetryOptions = {
@@ -25,9 +86,112 @@ export type RetryOptions = {
   backoffMultiplier?: number;
 };
 
+export type SequentialExecutionOptions = {
+  controller?: ExecutionController;
+};
+
 export type ParallelExecutionOptions = {
   maxConcurrency?: number;
   continueOnError?: boolean;
+  controller?: ExecutionController;
+};
+
+/**
+ * When the runner writes checkpoints. Time-based checkpoints are evaluated
+ * as steps complete, so no timers are left running between steps.
+ */
+export type CheckpointPolicy = {
+  /** Checkpoint after every completed step */
+  afterEachStep?: boolean;
+  /** Checkpoint after every N completed steps */
+  everySteps?: number;
+  /** Checkpoint once this many milliseconds passed since the last one */
+  intervalMs?: number;
+  /** Checkpoint when a step fails */
+  onFailure?: boolean;
+};
+
+export type WorkflowRunnerOptions = {
+  recovery?: RecoveryManager;
+  checkpointPolicy?: CheckpointPolicy;
+  /**
+   * Store that `resumePlan` loads plans from and saves them back to; plans
+   * waiting for an approval are saved to it as well
+   */
+  planStore?: WorkflowPlanStore;
+  /** Gate that `approval` steps wait on for a human decision */
+  approvals?: ApprovalGate;
+  hooks?: WorkflowHooks;
+  /** Store that receives a record of every sequential or graph execution */
+  history?: ExecutionHistoryStore;
+  /**
+   * Step durations that plan estimates are based on; learns from every step
+   * the runner completes and from the recorded runs of the plans it executes
+   */
+  durations?: DurationEstimator;
+  /** Number of subworkflow steps the runner is nested in */
+  subworkflowDepth?: number;
+};
+
+/** Nesting limit that stops self-referencing subworkflows */
+const MAX_SUBWORKFLOW_DEPTH = 8;
+
+/** Update reported when a step settles in each final status */
+const STEP_SETTLED_UPDATES: Partial<
+  Record<WorkflowStepDefinition["status"], WorkflowUpdateType>
+> = {
+  completed: "step_completed",
+  failed: "step_failed",
+  skipped: "step_skipped",
+};
+
+type LoopIteration = {
+  index: number;
+  /** Step outputs of the previous iteration, keyed by step name */
+  previous?: Record<string, unknown>;
+};
+
+/** State of a graph execution shared by its scheduler and its steps */
+type GraphRun = {
+  plan: WorkflowPlan;
+  context: ExecutionContext;
+  maxConcurrency: number;
+  continueOnError: boolean;
+  controller?: ExecutionController;
+  /** Steps executing, by step ID */
+  running: Map<string, Promise<void>>;
+  errors: Error[];
+  /** Set once a step failed without `continueOnError` */
+  halted: boolean;
+};
+
+type CheckpointProgress = {
+  completedSinceCheckpoint: number;
+  lastCheckpointAt: number;
+};
+
+/**
+ * Output of a `branch` step: the name of the selected branch, or null when
+ * no branch matched
+ */
+export type BranchOutput = {
+  branch: string | null;
+};
+
+/**
+ * Output of a `map` step: one result per item, in item order
+ */
+export type MapOutput = {
+  results: unknown[];
+};
+
+/**
+ * Output of a `loop` step: the sub-plan step outputs of every iteration,
+ * keyed by step name
+ */
+export type LoopOutput = {
+  iterations: number;
+  results: Record<string, unknown>[];
 };
 
 export type StepHandler = (
@@ -35,159 +199,1607 @@ export type StepHandler = (
   context: ExecutionContext
 ) => Promise<unknown>;
 
-/**
- * WorkflowRunner orchestrates step execution with support for sequential,
- * parallel, and retry logic.
- */
-export class WorkflowRunner {
-  private readonly handlers: Map<string, StepHandler> = new Map();
+export type StepHook = (
+  step: WorkflowStepDefinition,
+  context: ExecutionContext
+) => void | Promise<void>;
+
+/**
+ * Hooks run around every plan step, including the steps of subworkflows and
+ * loop iterations
+ */
+export type WorkflowHooks = {
+  /** Runs before a step starts; throwing fails the step with HOOK_ERROR */
+  beforeStep?: StepHook;
+  /**
+   * Runs once a step has completed, failed or been skipped. Errors it throws
+   * are reported to `onObserverError` and do not change the step outcome.
+   */
+  afterStep?: StepHook;
+  /**
+   * Receives errors thrown by `afterStep` and update listeners, which never
+   * affect the run. Defaults to logging them with `console.error`.
+   */
+  onObserverError?: (error: unknown, source: ObserverErrorSource) => void;
+};
+
+export type ObserverErrorSource = "afterStep" | "listener";
+
+/**
+ * Receives plan and step updates as they happen. The execution ID of an
+ * update is the ID of the run recorded in the execution history, or the
+ * plan ID for steps executed outside of a plan execution. Errors a listener
+ * throws are reported to `WorkflowHooks.onObserverError` and do not affect
+ * the run.
+ */
+export type WorkflowUpdateListener = (update: WorkflowUpdateMessage) => void;
+
+/**
+ * WorkflowRunner orchestrates step execution with support for sequential,
+ * parallel, and retry logic.
+ */
+export class WorkflowRunner {
+  private readonly handlers: Map<string, StepHandler> = new Map();
+  private readonly recovery?: RecoveryManager;
+  private readonly checkpointPolicy: CheckpointPolicy;
+  private readonly planStore?: WorkflowPlanStore;
+  private readonly approvals?: ApprovalGate;
+  private readonly hooks: WorkflowHooks;
+  private readonly history?: ExecutionHistoryStore;
+  private readonly durations: DurationEstimator;
+  private readonly updateListeners: WorkflowUpdateListener[] = [];
+  /** Plan status to restore once a plan has no steps waiting for input */
+  private readonly statusBeforeApproval: Map<
+    string,
+    WorkflowPlanStatus | undefined
+  > = new Map();
+  private readonly checkpointProgress: Map<string, CheckpointProgress> =
+    new Map();
+  /** Deadlines of the plans this runner is executing */
+  private readonly deadlines: Map<string, PlanDeadline> = new Map();
+  /** Plans whose recorded runs the duration estimates have learned from */
+  private readonly seededPlans: Set<string> = new Set();
+  private readonly subworkflowDepth: number;
+
+  constructor(options: WorkflowRunnerOptions = {}) {
+    this.recovery = options.recovery;
+    this.checkpointPolicy = options.checkpointPolicy ?? {};
+    this.planStore = options.planStore;
+    this.approvals = options.approvals;
+    this.hooks = options.hooks ?? {};
+    this.history = options.history;
+    this.durations = options.durations ?? new DurationEstimator();
+    this.subworkflowDepth = options.subworkflowDepth ?? 0;
+  }
+
+  /**
+   * Register a handler for a specific step type
+   */
+  registerHandler(stepType: string, handler: StepHandler): void {
+    this.handlers.set(stepType, handler);
+  }
+
+  /**
+   * Check if a handler is registered for a step type
+   */
+  hasHandler(stepType: string): boolean {
+    return this.handlers.has(stepType);
+  }
+
+  /**
+   * Register a listener notified of every plan and step update. Returns a
+   * function that removes the listener.
+   */
+  onUpdate(listener: WorkflowUpdateListener): () => void {
+    this.updateListeners.push(listener);
+
+    return () => {
+      const index = this.updateListeners.indexOf(listener);
+
+      if (index !== -1) {
+        this.updateListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Execute a single step, failing it with a TIMEOUT_ERROR if the handler
+   * does not settle within `timeout` milliseconds
+   */
+  async executeStep(
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    timeout?: number
+  ): Promise<unknown> {
+    const handler = this.handlers.get(step.type);
+
+    step.status = "running";
+    step.startTime = Date.now();
+
+    try {
+      if (!handler) {
+        throw new WorkflowError("No handler registered for step type", {
+          stepType: step.type,
+          stepId: step.id,
+        });
+      }
+
+      const result = await invokeHandler(handler, step, context, timeout);
+
+      step.status = "completed";
+      step.output = result;
+      step.endTime = Date.now();
+
+      return result;
+    } catch (error) {
+      step.status = "failed";
+      step.error = {
+        code:
+          error instanceof TimeoutError
+            ? ErrorCode.TIMEOUT_ERROR
+            : "STEP_EXECUTION_ERROR",
+        message: error instanceof Error ? error.message : "Unknown error",
+        details: error,
+      };
+      step.endTime = Date.now();
+
+      throw error;
+    }
+  }
+
+  /**
+   * Execute a step of a plan, exposing dependency outputs to the handler and
+   * resolving templates in the step input. The step's hooks run around it
+   * and its progress is reported to update listeners.
+   */
+  async executePlanStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext
+  ): Promise<unknown> {
+    const scope: ConditionScope = {
+      steps: collectDependencyOutputs(plan, step),
+      context: plan.context,
+    };
+    let skipped: boolean;
+
+    // Starts the checkpoint interval clock on the plan's first step
+    this.getCheckpointProgress(plan.id);
+
+    try {
+      skipped = shouldSkipStep(plan, step, scope);
+    } catch (error) {
+      await this.failStep(plan, step, "CONDITION_EVALUATION_ERROR", error);
+      await this.settleStep(plan, step, context);
+      throw error;
+    }
+
+    if (skipped) {
+      step.status = "skipped";
+      step.output = undefined;
+      step.endTime = Date.now();
+      await this.settleStep(plan, step, context);
+      return;
+    }
+
+    try {
+      await this.hooks.beforeStep?.(step, context);
+    } catch (error) {
+      await this.failStep(plan, step, "HOOK_ERROR", error);
+      await this.settleStep(plan, step, context);
+      throw error;
+    }
+
+    this.emitStepUpdate(plan, step, "step_started", context);
+
+    let result: unknown;
+
+    try {
+      result = await this.runPlanStep(plan, step, context, scope);
+    } catch (error) {
+      // Interrupted steps are reset by the caller, not reported as failures
+      if (!isInterrupted(context.signal)) {
+        await this.settleStep(plan, step, context);
+      }
+      throw error;
+    }
+
+    await this.settleStep(plan, step, context);
+    return result;
+  }
+
+  /**
+   * Run a plan step that is not skipped, dispatching control steps to their
+   * executors
+   */
+  private async runPlanStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    scope: ConditionScope
+  ): Promise<unknown> {
+    const dependencyOutputs = scope.steps;
+    let input: Record<string, unknown> | undefined;
+
+    if (step.type === "branch") {
+      return this.executeBranchStep(plan, step, scope);
+    }
+
+    if (step.type === "approval") {
+      return this.executeApprovalStep(plan, step, context, dependencyOutputs);
+    }
+
+    if (step.type === "subworkflow") {
+      return this.executeSubworkflowStep(
+        plan,
+        step,
+        context,
+        dependencyOutputs
+      );
+    }
+
+    if (step.type === "map" || step.type === "loop") {
+      return this.executeIteratedStep(
+        plan,
+        step,
+        { ...context, stepId: step.id, dependencyOutputs },
+        scope
+      );
+    }
+
+    try {
+      input = resolveTemplates(step.input, dependencyOutputs);
+    } catch (error) {
+      await this.failStep(plan, step, "TEMPLATE_RESOLUTION_ERROR", error);
+      throw error;
+    }
+
+    let result: unknown;
+
+    try {
+      result = await this.executeWithRetry(plan, step, {
+        ...context,
+        stepId: step.id,
+        dependencyOutputs,
+        input,
+      });
+    } catch (error) {
+      // Steps interrupted by cancellation are not failures worth recording
+      if (!isInterrupted(context.signal)) {
+        await this.checkpointOnFailure(plan, error);
+      }
+      throw error;
+    }
+
+    await this.checkpointAfterStep(plan, step);
+    return result;
+  }
+
+  /**
+   * Report a step that has completed, failed or been skipped and run the
+   * `afterStep` hook
+   */
+  private async settleStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext
+  ): Promise<void> {
+    const type = STEP_SETTLED_UPDATES[step.status];
+
+    if (
+      step.status === "completed" &&
+      step.startTime !== undefined &&
+      step.endTime !== undefined
+    ) {
+      this.durations.record(step, step.endTime - step.startTime);
+    }
+
+    if (type) {
+      this.emitStepUpdate(plan, step, type, context);
+    }
+
+    try {
+      await this.hooks.afterStep?.(step, context);
+    } catch (error) {
+      this.reportObserverError(error, "afterStep");
+    }
+  }
+
+  private emitStepUpdate(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    type: WorkflowUpdateType,
+    context: ExecutionContext
+  ): void {
+    this.emitUpdate({
+      type,
+      // Steps run on their own outside of a plan execution report the plan
+      executionId: context.executionId ?? plan.id,
+      stepId: step.id,
+      status: type === "step_started" ? "running" : step.status,
+      output: step.status === "completed" ? step.output : undefined,
+      error:
+        step.status === "failed" && step.error
+          ? { code: step.error.code, message: step.error.message }
+          : undefined,
+      timestamp: Date.now(),
+    });
+  }
+
+  private emitUpdate(update: WorkflowUpdateMessage): void {
+    for (const listener of this.updateListeners) {
+      try {
+        listener(update);
+      } catch (error) {
+        this.reportObserverError(error, "listener");
+      }
+    }
+  }
+
+  private reportObserverError(
+    error: unknown,
+    source: ObserverErrorSource
+  ): void {
+    const report =
+      this.hooks.onObserverError ??
+      ((cause: unknown) => console.error(`Workflow ${source} failed:`, cause));
+
+    try {
+      report(error, source);
+    } catch {
+      // A failing reporter must not affect the run either
+    }
+  }
+
+  /**
+   * Choose the branch a `branch` step takes. The steps of the other branches
+   * are skipped when the scheduler reaches them.
+   */
+  private async executeBranchStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    scope: ConditionScope
+  ): Promise<BranchOutput> {
+    step.status = "running";
+    step.startTime = Date.now();
+
+    let output: BranchOutput;
+
+    try {
+      output = {
+        branch: selectBranch(step.branches ?? [], scope)?.name ?? null,
+      };
+    } catch (error) {
+      await this.failStep(plan, step, "CONDITION_EVALUATION_ERROR", error);
+      throw error;
+    }
+
+    step.status = "completed";
+    step.output = output;
+    step.endTime = Date.now();
+
+    await this.checkpointAfterStep(plan, step);
+    return output;
+  }
+
+  /**
+   * Wait for a human decision on an `approval` step. The step and the plan
+   * are `waiting_for_input` meanwhile; a rejection or expiry fails the step.
+   */
+  private async executeApprovalStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    dependencyOutputs: StepOutputs
+  ): Promise<ApprovalResponse> {
+    step.status = "running";
+    step.startTime = Date.now();
+
+    let response: ApprovalResponse;
+
+    try {
+      if (!this.approvals) {
+        throw new WorkflowError("Approval steps require an approval gate", {
+          stepId: step.id,
+        });
+      }
+
+      const approval = resolveTemplates(
+        requireConfig(step, step.approval),
+        dependencyOutputs
+      );
+      const decision = this.approvals.request(
+        {
+          planId: plan.id,
+          stepId: step.id,
+          stepName: step.name,
+          question: approval.question,
+          context: approval.context ?? {},
+        },
+        { expiresIn: approval.expiresIn, signal: context.signal }
+      );
+
+      await this.markWaitingForInput(plan, step, context);
+      try {
+        response = await decision;
+      } finally {
+        await this.clearWaitingForInput(plan, step, context);
+      }
+    } catch (error) {
+      // Interrupted steps are reset by the caller, not recorded as failures
+      if (context.signal?.aborted) {
+        throw error;
+      }
+
+      await this.failStep(
+        plan,
+        step,
+        error instanceof TimeoutError
+          ? "APPROVAL_EXPIRED"
+          : "STEP_EXECUTION_ERROR",
+        error
+      );
+      throw error;
+    }
+
+    if (!response.approved) {
+      const error = new WorkflowError("Approval rejected", {
+        stepId: step.id,
+        reason: response.reason,
+        respondedBy: response.respondedBy,
+      });
+      await this.failStep(plan, step, "APPROVAL_REJECTED", error);
+      throw error;
+    }
+
+    step.status = "completed";
+    step.output = response;
+    step.endTime = Date.now();
+
+    await this.checkpointAfterStep(plan, step);
+    return response;
+  }
+
+  /**
+   * Move a step and its plan to `waiting_for_input`, saving the plan so
+   * readers of the plan store see it waiting
+   */
+  private async markWaitingForInput(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext
+  ): Promise<void> {
+    step.status = "waiting_for_input";
+    // Time spent waiting for a person does not count towards the deadline
+    this.deadlines.get(plan.id)?.hold();
+
+    if (plan.status !== "waiting_for_input") {
+      this.statusBeforeApproval.set(plan.id, plan.status);
+      plan.status = "waiting_for_input";
+    }
+
+    await this.planStore?.save(plan);
+    this.emitStepUpdate(plan, step, "step_update", context);
+  }
+
+  /**
+   * Return a decided step to running, restoring the plan status once no
+   * other step is waiting
+   */
+  private async clearWaitingForInput(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext
+  ): Promise<void> {
+    step.status = "running";
+    this.deadlines.get(plan.id)?.release();
+
+    if (!plan.steps.some((s) => s.status === "waiting_for_input")) {
+      plan.status = this.statusBeforeApproval.get(plan.id);
+      this.statusBeforeApproval.delete(plan.id);
+    }
+
+    await this.planStore?.save(plan);
+    this.emitStepUpdate(plan, step, "step_update", context);
+  }
+
+  /**
+   * Execute a `map` or `loop` step, recording each item or iteration on the
+   * step. Iterations finished by a previous (resumed) run are not repeated.
+   */
+  private async executeIteratedStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    scope: ConditionScope
+  ): Promise<MapOutput | LoopOutput> {
+    step.status = "running";
+    step.startTime = Date.now();
+
+    let output: MapOutput | LoopOutput;
+
+    try {
+      output =
+        step.type === "map"
+          ? await this.executeMap(plan, step, context, scope)
+          : await this.executeLoop(plan, step, context, scope);
+    } catch (error) {
+      // Interrupted steps are reset by the caller, not recorded as failures
+      if (context.signal?.aborted) {
+        throw error;
+      }
+
+      await this.failStep(plan, step, "STEP_EXECUTION_ERROR", error);
+      throw error;
+    }
+
+    step.status = "completed";
+    step.output = output;
+    step.endTime = Date.now();
+
+    await this.checkpointAfterStep(plan, step);
+    return output;
+  }
+
+  /**
+   * Run the child step of a map step once per item, at most
+   * `map.concurrency` items at a time
+   */
+  private async executeMap(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    scope: ConditionScope
+  ): Promise<MapOutput> {
+    const map = requireConfig(step, step.map);
+    const items = evaluateExpression(map.over, scope);
+
+    if (!Array.isArray(items)) {
+      throw new WorkflowError("Map source is not an array", {
+        stepId: step.id,
+        over: map.over,
+      });
+    }
+
+    const results: unknown[] = new Array(items.length);
+    const errors: unknown[] = [];
+    const semaphore = new Semaphore(map.concurrency ?? 5);
+
+    await Promise.all(
+      items.map(async (item, index) => {
+        const finished = findCompletedIteration(step, index);
+
+        if (finished) {
+          results[index] = finished.output;
+          return;
+        }
+
+        await semaphore.acquire();
+        try {
+          // Stop starting items once one has failed or the run was cancelled
+          if (errors.length > 0 || context.signal?.aborted) {
+            return;
+          }
+
+          results[index] = await this.runIteration(plan, step, index, () =>
+            this.executeMapItem(plan, step, context, { item, index })
+          );
+        } catch (error) {
+          errors.push(error);
+        } finally {
+          semaphore.release();
+        }
+      })
+    );
+
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+
+    if (context.signal?.aborted) {
+      throw new WorkflowError("Workflow execution cancelled", {
+        planId: plan.id,
+        stepId: step.id,
+      });
+    }
+
+    return { results };
+  }
+
+  /**
+   * Run the child step of a map step for a single item
+   */
+  private executeMapItem(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    { item, index }: TemplateLocals
+  ): Promise<unknown> {
+    const map = requireConfig(step, step.map);
+    const child: WorkflowStepDefinition = {
+      ...structuredClone(map.step),
+      id: `${step.id}_${index}`,
+      name: `${step.name}[${index}]`,
+      status: "pending",
+      dependencies: [],
+    };
+    const input = resolveTemplates(
+      child.input,
+      context.dependencyOutputs ?? {},
+      { item, index }
+    );
+
+    return this.executeWithRetry(plan, child, {
+      ...context,
+      stepId: child.id,
+      input,
+      data: { ...context.data, item, index },
+    });
+  }
+
+  /**
+   * Run the sub-plan of a loop step until its `until` condition holds or
+   * `maxIterations` is reached
+   */
+  private async executeLoop(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    scope: ConditionScope
+  ): Promise<LoopOutput> {
+    const loop = requireConfig(step, step.loop);
+    const results: Record<string, unknown>[] = [];
+
+    for (let index = 0; index < loop.maxIterations; index++) {
+      if (context.signal?.aborted) {
+        throw new WorkflowError("Workflow execution cancelled", {
+          planId: plan.id,
+          stepId: step.id,
+        });
+      }
+
+      const finished = findCompletedIteration(step, index);
+      const outputs = (
+        finished
+          ? finished.output
+          : await this.runIteration(plan, step, index, () =>
+              this.executeLoopIteration(plan, step, context, {
+                index,
+                previous: results.at(-1),
+              })
+            )
+      ) as Record<string, unknown>;
+
+      results.push(outputs);
+
+      if (
+        loop.until !== undefined &&
+        evaluateCondition(loop.until, {
+          steps: { ...scope.steps, ...outputs },
+          context: { ...plan.context, iteration: index },
+        })
+      ) {
+        break;
+      }
+    }
+
+    return { iterations: results.length, results };
+  }
+
+  /**
+   * Run one iteration of a loop step's sub-plan. The sub-plan sees the
+   * iteration number and the previous iteration's outputs in its context.
+   */
+  private async executeLoopIteration(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    { index, previous }: LoopIteration
+  ): Promise<Record<string, unknown>> {
+    const loop = requireConfig(step, step.loop);
+    const subPlan = createPlanFromDefinition({
+      name: `${step.name}[${index}]`,
+      steps: loop.steps,
+      config: plan.config,
+      context: { ...plan.context, iteration: index, previous },
+    });
+
+    // Sub-plan steps are checkpointed through their loop iteration only.
+    // The iteration is part of the parent's run, so it is not tracked as an
+    // execution of its own and runs under the parent's deadline.
+    await this.createChildRunner().runGraph(subPlan, {
+      ...context,
+      stepId: "",
+      dependencyOutputs: undefined,
+      input: undefined,
+    });
+
+    return Object.fromEntries(
+      subPlan.steps.map((subStep) => [subStep.name, subStep.output])
+    );
+  }
+
+  /**
+   * Run the child plan of a `subworkflow` step with its own checkpoints and
+   * surface its aggregated result as the step output
+   */
+  private async executeSubworkflowStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    dependencyOutputs: StepOutputs
+  ): Promise<WorkflowResult> {
+    step.status = "running";
+    step.startTime = Date.now();
+
+    let childPlan: WorkflowPlan;
+
+    try {
+      if (this.subworkflowDepth >= MAX_SUBWORKFLOW_DEPTH) {
+        throw new WorkflowError("Subworkflows are nested too deeply", {
+          stepId: step.id,
+          maxDepth: MAX_SUBWORKFLOW_DEPTH,
+        });
+      }
+
+      childPlan = await this.runChildPlan(step, context, dependencyOutputs);
+    } catch (error) {
+      // Interrupted steps are reset by the caller, not recorded as failures
+      if (context.signal?.aborted) {
+        throw error;
+      }
+
+      await this.failStep(plan, step, "STEP_EXECUTION_ERROR", error);
+      throw error;
+    }
+
+    const output = toWorkflowResult(childPlan);
+
+    step.status = "completed";
+    step.output = output;
+    step.endTime = Date.now();
+
+    await this.checkpointAfterStep(plan, step);
+    return output;
+  }
+
+  /**
+   * Execute the child plan of a subworkflow step. A child plan left
+   * unfinished by a previous run resumes from its latest checkpoint.
+   */
+  private async runChildPlan(
+    step: WorkflowStepDefinition,
+    context: ExecutionContext,
+    dependencyOutputs: StepOutputs
+  ): Promise<WorkflowPlan> {
+    const runner = this.createChildRunner({
+      recovery: this.recovery,
+      checkpointPolicy: this.checkpointPolicy,
+      planStore: this.planStore,
+      approvals: this.approvals,
+      history: this.history,
+    });
+    const childContext: ExecutionContext = {
+      ...context,
+      // The subworkflow is a run of its own
+      executionId: undefined,
+      stepId: "",
+      dependencyOutputs: undefined,
+      input: undefined,
+    };
+    const resumeId = step.subworkflowPlanId;
+
+    if (
+      resumeId &&
+      this.planStore &&
+      (await this.recovery?.getLatestCheckpoint(resumeId))
+    ) {
+      await runner.resumePlan(resumeId, childContext);
+      const resumed = await this.planStore.load(resumeId);
+
+      if (resumed) {
+        return resumed;
+      }
+    }
+
+    const config = requireConfig(step, step.subworkflow);
+    const definition = await this.loadSubworkflowDefinition(step);
+    const childPlan = createPlanFromDefinition({
+      ...definition,
+      context: {
+        ...definition.context,
+        ...resolveTemplates(config.context, dependencyOutputs),
+      },
+    });
+
+    step.subworkflowPlanId = childPlan.id;
+    await this.planStore?.save(childPlan);
+
+    try {
+      await runner.executeGraph(childPlan, {
+        ...childContext,
+        planId: childPlan.id,
+      });
+    } finally {
+      childPlan.updatedAt = Date.now();
+      await this.planStore?.save(childPlan);
+    }
+
+    return childPlan;
+  }
+
+  /**
+   * Load a subworkflow definition from its inline definition, file or
+   * stored plan
+   */
+  private async loadSubworkflowDefinition(
+    step: WorkflowStepDefinition
+  ): Promise<WorkflowPlanDefinition> {
+    const config = requireConfig(step, step.subworkflow);
+
+    if (config.definition) {
+      return parseSubworkflowDefinition(config.definition, step.name);
+    }
+
+    if (config.file) {
+      return loadWorkflowDefinition(config.file);
+    }
+
+    const stored = config.planId
+      ? await this.planStore?.load(config.planId)
+      : null;
+
+    if (!stored) {
+      throw new WorkflowError("Subworkflow plan not found", {
+        stepId: step.id,
+        planId: config.planId,
+        reason: this.planStore ? undefined : "No plan store configured",
+      });
+    }
+
+    return planToDefinition(stored);
+  }
+
+  /**
+   * Create a runner for nested plans that shares this runner's handlers and
+   * hooks and reports its updates to this runner's listeners
+   */
+  private createChildRunner(options?: WorkflowRunnerOptions): WorkflowRunner {
+    const runner = new WorkflowRunner({
+      ...options,
+      hooks: this.hooks,
+      durations: this.durations,
+      subworkflowDepth: this.subworkflowDepth + 1,
+    });
+
+    for (const [stepType, handler] of this.handlers) {
+      runner.registerHandler(stepType, handler);
+    }
+
+    runner.onUpdate((update) => this.emitUpdate(update));
+    return runner;
+  }
+
+  /**
+   * Record a map item or loop iteration on its step and checkpoint it under
+   * the runner's checkpoint policy
+   */
+  private async runIteration(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    index: number,
+    run: () => Promise<unknown>
+  ): Promise<unknown> {
+    const iteration: StepIteration = {
+      index,
+      status: "running",
+      startTime: Date.now(),
+    };
+    const iterations = step.iterations ?? [];
+    step.iterations = [
+      ...iterations.filter((existing) => existing.index !== index),
+      iteration,
+    ];
+
+    try {
+      iteration.output = await run();
+      iteration.status = "completed";
+      iteration.endTime = Date.now();
+    } catch (error) {
+      iteration.status = "failed";
+      iteration.error = {
+        code: classifyError(error),
+        message: error instanceof Error ? error.message : "Unknown error",
+      };
+      iteration.endTime = Date.now();
+      throw error;
+    }
+
+    await this.checkpointAfterStep(plan, step, index);
+    return iteration.output;
+  }
+
+  /**
+   * Mark a step failed and write a failure checkpoint if the policy asks for
+   * one
+   */
+  private async failStep(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    code: string,
+    error: unknown
+  ): Promise<void> {
+    step.status = "failed";
+    step.error = {
+      code,
+      message: error instanceof Error ? error.message : "Unknown error",
+      details: error,
+    };
+    step.endTime = Date.now();
+
+    await this.checkpointOnFailure(plan, error);
+  }
+
+  /**
+   * Execute a step under its retry policy, recording every attempt on the
+   * step. Only errors classified as retryable are attempted again.
+   */
+  private async executeWithRetry(
+    plan: WorkflowPlan,
+    step: WorkflowStepDefinition,
+    context: ExecutionContext
+  ): Promise<unknown> {
+    const policy = resolveRetryPolicy(plan, step);
+    const timeout = step.timeout;
+    const attempts: NonNullable<WorkflowStepDefinition["attempts"]> = [];
+    step.attempts = attempts;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.executeStep(step, context, timeout);
+
+        recordAttempt(step, attempts, attempt);
+        step.error = undefined;
+
+        return result;
+      } catch (error) {
+        recordAttempt(step, attempts, attempt, error);
+
+        if (
+          attempt >= policy.maxAttempts ||
+          !isRetryable(policy, classifyError(error)) ||
+          context.signal?.aborted
+        ) {
+          throw error;
+        }
+
+        step.status = "running";
+        await wait(getRetryDelay(policy, attempt), context.signal);
+
+        if (context.signal?.aborted) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Resume a stored plan from its latest checkpoint, executing only the
+   * steps the checkpoint did not cover
+   */
+  async resumePlan(
+    planId: string,
+    context: Partial<ExecutionContext> = {},
+    options?: ParallelExecutionOptions
+  ): Promise<unknown[]> {
+    if (!(this.recovery && this.planStore)) {
+      throw new WorkflowError(
+        "Resuming plans requires a recovery manager and a plan store",
+        { planId }
+      );
+    }
+
+    const plan = await this.planStore.load(planId);
+
+    if (!plan) {
+      throw new WorkflowError("Workflow plan not found", { planId });
+    }
+
+    const checkpoint = await this.recovery.getLatestCheckpoint(planId);
+
+    if (!checkpoint) {
+      throw new WorkflowError("No checkpoint found for plan", { planId });
+    }
+
+    if (!(await this.recovery.validateCheckpoint(checkpoint, plan))) {
+      throw new WorkflowError("Checkpoint does not match workflow plan", {
+        planId,
+        checkpointId: checkpoint.id,
+      });
+    }
+
+    await this.recovery.restoreFromCheckpoint(checkpoint, plan);
+    const remaining = await this.recovery.getRemainingSteps(checkpoint, plan);
+
+    if (remaining.length === 0) {
+      return plan.steps.map((step) => step.output);
+    }
+
+    try {
+      return await this.executeGraph(
+        plan,
+        { stepId: "", data: {}, ...context, planId },
+        options
+      );
+    } finally {
+      plan.updatedAt = Date.now();
+      await this.planStore.save(plan);
+    }
+  }
+
+  /**
+   * Execute workflow steps sequentially, respecting dependencies
+   */
+  executeSequentially(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: SequentialExecutionOptions
+  ): Promise<unknown[]> {
+    return this.trackPlan(plan, context, (planContext) =>
+      this.runSequentially(plan, planContext, options)
+    );
+  }
+
+  private async runSequentially(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: SequentialExecutionOptions
+  ): Promise<unknown[]> {
+    const controller = options?.controller;
+    const ordered = resolveDependencies(plan);
+    const results: unknown[] = [];
+
+    for (const step of ordered) {
+      // Steps finished by a previous (resumed) run are not executed again
+      if (step.status === "completed" || step.status === "skipped") {
+        results.push(step.output);
+        continue;
+      }
+
+      if (controller) {
+        await this.waitWhilePaused(plan, controller);
+
+        if (controller.isCancelled) {
+          throw this.cancellationError(plan, controller);
+        }
+      }
+
+      const stepContext: ExecutionContext = {
+        ...context,
+        signal: combineSignals(controller?.signal, context.signal),
+        data: {
+          ...context.data,
+          previousResults: results,
+          previousOutput: results.at(-1),
+        },
+      };
+
+      try {
+        const result = await this.executePlanStep(plan, step, stepContext);
+        results.push(result);
+      } catch (error) {
+        if (controller?.isCancelled) {
+          this.resetInterruptedStep(step);
+          throw this.cancellationError(plan, controller);
+        }
+
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute independent workflow steps in parallel
+   */
+  async executeParallel(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: ParallelExecutionOptions
+  ): Promise<unknown[]> {
+    const maxConcurrency = options?.maxConcurrency ?? 5;
+    const continueOnError = options?.continueOnError ?? false;
+
+    const independent = plan.steps.filter(
+      (step) => step.dependencies.length === 0
+    );
+
+    if (independent.length === 0) {
+      return [];
+    }
+
+    const results: unknown[] = new Array(independent.length);
+    const errors: Error[] = [];
+
+    const executeWithSemaphore = async (
+      step: WorkflowStepDefinition,
+      index: number,
+      semaphore: Semaphore
+    ): Promise<void> => {
+      await semaphore.acquire();
+      try {
+        results[index] = await this.executePlanStep(plan, step, context);
+      } catch (error) {
+        if (continueOnError) {
+          errors.push(
+            error instanceof Error ? error : new Error(String(error))
+          );
+        } else {
+          throw error;
+        }
+      } finally {
+        semaphore.release();
+      }
+    };
+
+    const semaphore = new Semaphore(maxConcurrency);
+    const promises = independent.map((step, index) =>
+      executeWithSemaphore(step, index, semaphore)
+    );
+
+    await Promise.all(promises);
+
+    if (errors.length > 0) {
+      throw new WorkflowError("Parallel execution errors", {
+        errorCount: errors.length,
+        errors: errors.map((e) => e.message),
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Execute the full dependency graph, launching each step as soon as all of
+   * its dependencies have completed. The first failure stops the scheduling
+   * of further steps, which stay pending, unless `continueOnError` is set.
+   */
+  executeGraph(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: ParallelExecutionOptions
+  ): Promise<unknown[]> {
+    return this.trackPlan(plan, context, (planContext) =>
+      this.runGraph(plan, planContext, options)
+    );
+  }
+
+  private async runGraph(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: ParallelExecutionOptions
+  ): Promise<unknown[]> {
+    const controller = options?.controller;
+    const graph: GraphRun = {
+      plan,
+      context: {
+        ...context,
+        signal: combineSignals(controller?.signal, context.signal),
+      },
+      maxConcurrency: options?.maxConcurrency ?? 5,
+      continueOnError: options?.continueOnError ?? false,
+      controller,
+      running: new Map(),
+      errors: [],
+      halted: false,
+    };
+
+    // Validates the graph up front: throws on cycles or unknown dependencies
+    resolveDependencies(plan);
+    await this.scheduleGraph(graph);
+
+    if (controller?.isCancelled) {
+      throw this.cancellationError(plan, controller);
+    }
+
+    if (graph.errors.length > 0) {
+      throw graph.continueOnError
+        ? new WorkflowError("Graph execution errors", {
+            errorCount: graph.errors.length,
+            errors: graph.errors.map((e) => e.message),
+          })
+        : graph.errors[0];
+    }
+
+    return plan.steps.map((step) => step.output);
+  }
+
+  /**
+   * Launch steps as they become ready until no step is running and none can
+   * be started, waiting meanwhile while the execution is paused
+   */
+  private async scheduleGraph(graph: GraphRun): Promise<void> {
+    const { plan, controller } = graph;
+
+    while (true) {
+      if (!graph.halted && (!controller || controller.state === "running")) {
+        this.launchReadySteps(graph);
+      }
+
+      if (graph.running.size === 0) {
+        if (
+          controller?.isPaused &&
+          plan.steps.some((step) => step.status === "pending")
+        ) {
+          await this.waitWhilePaused(plan, controller);
+          continue;
+        }
+
+        return;
+      }
+
+      await Promise.race(
+        controller
+          ? [...graph.running.values(), controller.nextChange()]
+          : graph.running.values()
+      );
+    }
+  }
+
+  /**
+   * Launch the pending steps whose dependencies have all completed, up to
+   * the concurrency limit of the graph
+   */
+  private launchReadySteps(graph: GraphRun): void {
+    for (const step of graph.plan.steps) {
+      if (graph.running.size >= graph.maxConcurrency) {
+        return;
+      }
+
+      if (
+        step.status === "pending" &&
+        !graph.running.has(step.id) &&
+        areAllDependenciesCompleted(graph.plan, step.id)
+      ) {
+        graph.running.set(step.id, this.runGraphStep(graph, step));
+      }
+    }
+  }
+
+  /**
+   * Run a step of a graph. A failure fails the step's dependents with
+   * `continueOnError`, and otherwise halts the graph: no further steps are
+   * started, and the steps that were not, including the failed step's
+   * dependents, stay pending so that resuming the plan runs them.
+   */
+  private async runGraphStep(
+    graph: GraphRun,
+    step: WorkflowStepDefinition
+  ): Promise<void> {
+    try {
+      await this.executePlanStep(graph.plan, step, graph.context);
+    } catch (error) {
+      if (graph.controller?.isCancelled) {
+        this.resetInterruptedStep(step);
+        return;
+      }
+
+      graph.errors.push(
+        error instanceof Error ? error : new Error(String(error))
+      );
+
+      if (graph.continueOnError) {
+        this.failDependents(graph.plan, step.id);
+      } else {
+        graph.halted = true;
+      }
+    } finally {
+      graph.running.delete(step.id);
+    }
+  }
+
+  /**
+   * Report the start and outcome of a plan execution to update listeners
+   * and record it in the execution history. The plan timeout is the
+   * deadline of the execution: once it passes, the execution signal aborts
+   * and the steps that did not finish fail with a TIMEOUT_ERROR.
+   */
+  private async trackPlan(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    run: (planContext: ExecutionContext) => Promise<unknown[]>
+  ): Promise<unknown[]> {
+    const execution = createExecutionRecord(plan, {
+      executionId: context.executionId,
+      context: context.data,
+    });
+    const { executionId } = execution;
+
+    // Without a history the first steps start in the caller's tick
+    if (this.history) {
+      await this.seedDurations(plan.id, this.history);
+      await this.history.save(execution);
+    }
+
+    this.emitUpdate({
+      type: "workflow_started",
+      executionId,
+      timestamp: Date.now(),
+    });
+
+    let results: unknown[];
+    const deadline =
+      plan.config.timeout === undefined
+        ? undefined
+        : new PlanDeadline(plan.id, plan.config.timeout);
+
+    if (deadline) {
+      this.deadlines.set(plan.id, deadline);
+    }
+
+    const planContext: ExecutionContext = {
+      ...context,
+      executionId,
+      signal: combineSignals(context.signal, deadline?.signal),
+    };
+
+    try {
+      results = await run(planContext);
+    } catch (caught) {
+      const error = deadline?.expired ? deadline.error : caught;
+
+      if (deadline?.expired) {
+        this.failUnfinishedSteps(plan, deadline.error, planContext);
+      }
+
+      await this.history?.save(finishExecutionRecord(execution, plan, error));
+      this.emitUpdate({
+        type: "workflow_failed",
+        executionId,
+        status: "failed",
+        error: {
+          code: classifyError(error),
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+        timestamp: Date.now(),
+      });
+      throw error;
+    } finally {
+      deadline?.clear();
+      this.deadlines.delete(plan.id);
+      this.checkpointProgress.delete(plan.id);
+    }
+
+    await this.history?.save(finishExecutionRecord(execution, plan));
+    this.emitUpdate({
+      type: "workflow_completed",
+      executionId,
+      status: "completed",
+      output: toWorkflowResult(plan),
+      timestamp: Date.now(),
+    });
+    return results;
+  }
+
+  /**
+   * Learn step durations from the recorded runs of a plan the first time
+   * the runner executes it
+   */
+  private async seedDurations(
+    planId: string,
+    history: ExecutionHistoryStore
+  ): Promise<void> {
+    if (this.seededPlans.has(planId)) {
+      return;
+    }
+
+    this.seededPlans.add(planId);
+    this.durations.recordExecutions(
+      await history.list({ planId, limit: ESTIMATE_HISTORY_LIMIT })
+    );
+  }
 
   /**
-   * Register a handler for a specific step type
+   * Start a graph execution and return a handle to pause, resume or cancel it
    */
-  registerHandler(stepType: string, handler: StepHandler): void {
-    this.handlers.set(stepType, handler);
+  startGraph(
+    plan: WorkflowPlan,
+    context: ExecutionContext,
+    options?: Omit<ParallelExecutionOptions, "controller">
+  ): ExecutionHandle {
+    const controller = new ExecutionController();
+    const result = this.executeGraph(plan, context, { ...options, controller });
+    return createExecutionHandle(controller, result);
   }
 
   /**
-   * Check if a handler is registered for a step type
+   * Start a sequential execution and return a handle to pause, resume or
+   * cancel it
    */
-  hasHandler(stepType: string): boolean {
-    return this.handlers.has(stepType);
+  startSequential(
+    plan: WorkflowPlan,
+    context: ExecutionContext
+  ): ExecutionHandle {
+    const controller = new ExecutionController();
+    const result = this.executeSequentially(plan, context, { controller });
+    return createExecutionHandle(controller, result);
   }
 
   /**
-   * Execute a single step
+   * Fail the steps an expired deadline left unfinished
    */
-  async executeStep(
-    step: WorkflowStepDefinition,
+  private failUnfinishedSteps(
+    plan: WorkflowPlan,
+    error: TimeoutError,
     context: ExecutionContext
-  ): Promise<unknown> {
-    const handler = this.handlers.get(step.type);
+  ): void {
+    for (const step of plan.steps) {
+      if (step.status === "pending" || step.status === "paused") {
+        step.status = "failed";
+        step.error = {
+          code: ErrorCode.TIMEOUT_ERROR,
+          message: error.message,
+          details: error,
+        };
+        step.endTime = Date.now();
+        this.emitStepUpdate(plan, step, "step_failed", context);
+      }
+    }
+  }
 
-    if (!handler) {
-      throw new WorkflowError("No handler registered for step type", {
-        stepType: step.type,
-        stepId: step.id,
-      });
+  /**
+   * Block while the execution is paused, marking unscheduled steps as paused
+   */
+  private async waitWhilePaused(
+    plan: WorkflowPlan,
+    controller: ExecutionController
+  ): Promise<void> {
+    while (controller.isPaused) {
+      setStepStatuses(plan, "pending", "paused");
+      await controller.nextChange();
     }
 
-    step.status = "running";
-    step.startTime = Date.now();
+    setStepStatuses(plan, "paused", "pending");
+  }
 
-    try {
-      const result = await handler(step, context);
+  /**
+   * Return a step interrupted by cancellation to pending so it can be resumed
+   */
+  private resetInterruptedStep(step: WorkflowStepDefinition): void {
+    step.status = "pending";
+    step.output = undefined;
+    step.error = undefined;
+    step.startTime = undefined;
+    step.endTime = undefined;
+    step.iterations = step.iterations?.filter(
+      (iteration) => iteration.status === "completed"
+    );
+  }
 
-      step.status = "completed";
-      step.output = result;
-      step.endTime = Date.now();
+  private cancellationError(
+    plan: WorkflowPlan,
+    controller: ExecutionController
+  ): WorkflowError {
+    return new WorkflowError("Workflow execution cancelled", {
+      planId: plan.id,
+      reason: String(controller.signal.reason),
+    });
+  }
 
-      return result;
-    } catch (error) {
-      step.status = "failed";
-      step.error = {
-        code: "STEP_EXECUTION_ERROR",
-        message: error instanceof Error ? error.message : "Unknown error",
-        details: error,
-      };
-      step.endTime = Date.now();
+  private getCheckpointProgress(planId: string): CheckpointProgress {
+    let progress = this.checkpointProgress.get(planId);
 
-      throw error;
+    if (!progress) {
+      progress = { completedSinceCheckpoint: 0, lastCheckpointAt: Date.now() };
+      this.checkpointProgress.set(planId, progress);
     }
+
+    return progress;
   }
 
   /**
-   * Execute workflow steps sequentially, respecting dependencies
+   * Write a checkpoint after a completed step, or a completed iteration of a
+   * map or loop step, when the policy calls for one
    */
-  async executeSequentially(
+  private async checkpointAfterStep(
     plan: WorkflowPlan,
-    context: ExecutionContext
-  ): Promise<unknown[]> {
-    const ordered = resolveDependencies(plan);
-    const results: unknown[] = [];
+    step: WorkflowStepDefinition,
+    iteration?: number
+  ): Promise<void> {
+    if (!this.recovery) {
+      return;
+    }
 
-    for (const step of ordered) {
-      const stepContext: ExecutionContext = {
-        ...context,
-        stepId: step.id,
-        data: {
-          ...context.data,
-          previousResults: results,
-          previousOutput: results.at(-1),
-        },
-      };
+    const { afterEachStep, everySteps, intervalMs } = this.checkpointPolicy;
+    const progress = this.getCheckpointProgress(plan.id);
+    const now = Date.now();
+    progress.completedSinceCheckpoint += 1;
 
-      const result = await this.executeStep(step, stepContext);
-      results.push(result);
+    const completedSteps = plan.steps.filter((s) => s.status === "completed");
+
+    if (
+      afterEachStep ||
+      (everySteps !== undefined &&
+        progress.completedSinceCheckpoint >= everySteps)
+    ) {
+      await this.recovery.createRecoveryPoint(
+        plan,
+        completedSteps,
+        iteration === undefined
+          ? { reason: "step_completed", stepId: step.id }
+          : { reason: "iteration_completed", stepId: step.id, iteration }
+      );
+    } else if (
+      intervalMs !== undefined &&
+      now - progress.lastCheckpointAt >= intervalMs
+    ) {
+      await this.recovery.createPeriodicCheckpoint(
+        plan,
+        completedSteps,
+        intervalMs
+      );
+    } else {
+      return;
     }
 
-    return results;
+    await this.checkpointWritten(plan, now);
   }
 
   /**
-   * Execute independent workflow steps in parallel
+   * Write an error checkpoint when the policy checkpoints on failure
    */
-  async executeParallel(
+  private async checkpointOnFailure(
     plan: WorkflowPlan,
-    context: ExecutionContext,
-    options?: ParallelExecutionOptions
-  ): Promise<unknown[]> {
-    const maxConcurrency = options?.maxConcurrency ?? 5;
-    const continueOnError = options?.continueOnError ?? false;
+    error: unknown
+  ): Promise<void> {
+    if (!(this.recovery && this.checkpointPolicy.onFailure)) {
+      return;
+    }
 
-    const independent = plan.steps.filter(
-      (step) => step.dependencies.length === 0
+    await this.recovery.createErrorCheckpoint(
+      plan,
+      plan.steps.filter((s) => s.status === "completed"),
+      error instanceof Error ? error : new Error(String(error))
     );
 
-    if (independent.length === 0) {
-      return [];
-    }
+    await this.checkpointWritten(plan, Date.now());
+  }
 
-    const results: unknown[] = new Array(independent.length);
-    const errors: Error[] = [];
+  /**
+   * Restart the checkpoint policy counters and save the plan with the
+   * checkpoint, so `resumePlan` finds it from another process
+   */
+  private async checkpointWritten(
+    plan: WorkflowPlan,
+    writtenAt: number
+  ): Promise<void> {
+    const progress = this.getCheckpointProgress(plan.id);
+    progress.completedSinceCheckpoint = 0;
+    progress.lastCheckpointAt = writtenAt;
 
-    const executeWithSemaphore = async (
-      step: WorkflowStepDefinition,
-      index: number,
-      semaphore: Semaphore
-    ): Promise<void> => {
-      await semaphore.acquire();
-      try {
-        const stepContext: ExecutionContext = {
-          ...context,
-          stepId: step.id,
-          data: context.data,
-        };
+    await this.planStore?.save(plan);
+  }
 
-        results[index] = await this.executeStep(step, stepContext);
-      } catch (error) {
-        if (continueOnError) {
-          errors.push(
-            error instanceof Error ? error : new Error(String(error))
-          );
-        } else {
-          throw error;
-        }
-      } finally {
-        semaphore.release();
+  /**
+   * Mark all pending transitive dependents of a failed step as failed
+   */
+  private failDependents(plan: WorkflowPlan, stepId: string): void {
+    for (const dependent of getDependentSteps(plan, stepId)) {
+      if (dependent.status !== "pending") {
+        continue;
       }
-    };
-
-    const semaphore = new Semaphore(maxConcurrency);
-    const promises = independent.map((step, index) =>
-      executeWithSemaphore(step, index, semaphore)
-    );
 
-    await Promise.all(promises);
+      dependent.status = "failed";
+      dependent.error = {
+        code: "DEPENDENCY_FAILED",
+        message: `Dependency ${stepId} failed`,
+        details: { dependencyId: stepId },
+      };
+      dependent.endTime = Date.now();
 
-    if (errors.length > 0) {
-      throw new WorkflowError("Parallel execution errors", {
-        errorCount: errors.length,
-        errors: errors.map((e) => e.message),
-      });
+      this.failDependents(plan, dependent.id);
     }
-
-    return results;
   }
 
   /**
@@ -227,21 +1839,7 @@ export class WorkflowRunner {
     context: ExecutionContext,
     timeout: number
   ): Promise<unknown> {
-    return Promise.race([
-      this.executeStep(step, context),
-      new Promise<never>((_, reject) =>
-        setTimeout(
-          () =>
-            reject(
-              new WorkflowError("Step execution timeout", {
-                stepId: step.id,
-                timeout,
-              })
-            ),
-          timeout
-        )
-      ),
-    ]);
+    return this.executeStep(step, context, timeout);
   }
 
   /**
@@ -268,6 +1866,14 @@ export class WorkflowRunner {
     };
   }
 
+  /**
+   * Estimate the critical path and completion time of a plan from the step
+   * durations the runner has seen
+   */
+  estimatePlan(plan: WorkflowPlan): PlanEstimate {
+    return estimatePlan(plan, this.durations);
+  }
+
   /**
    * Get execution progress for a plan
    */
@@ -275,28 +1881,302 @@ export class WorkflowRunner {
     total: number;
     completed: number;
     failed: number;
+    skipped: number;
     pending: number;
     running: number;
     percentage: number;
+    /** Undefined when the plan's dependencies cannot be resolved */
+    estimate?: PlanEstimate;
   } {
     const total = plan.steps.length;
     const completed = plan.steps.filter((s) => s.status === "completed").length;
     const failed = plan.steps.filter((s) => s.status === "failed").length;
+    const skipped = plan.steps.filter((s) => s.status === "skipped").length;
     const pending = plan.steps.filter((s) => s.status === "pending").length;
     const running = plan.steps.filter((s) => s.status === "running").length;
-    const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+    // Skipped steps need no further work, so they count towards progress
+    const percentage =
+      total > 0 ? Math.round(((completed + skipped) / total) * 100) : 0;
+    let estimate: PlanEstimate | undefined;
+
+    try {
+      estimate = this.estimatePlan(plan);
+    } catch {
+      // Progress stays available for plans with cycles or unknown dependencies
+    }
 
     return {
       total,
       completed,
       failed,
+      skipped,
       pending,
       running,
       percentage,
+      estimate,
+    };
+  }
+}
+
+/**
+ * Read the configuration of a control step, which plan validation
+ * guarantees for plans built from definitions
+ */
+function requireConfig<T>(
+  step: WorkflowStepDefinition,
+  config: T | undefined
+): T {
+  if (config === undefined) {
+    throw new WorkflowError("Step is missing its configuration", {
+      stepId: step.id,
+      stepType: step.type,
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Aggregate the outcome of a finished child plan, keyed by step name
+ */
+function toWorkflowResult(plan: WorkflowPlan): WorkflowResult {
+  const stepsWith = (status: WorkflowStepDefinition["status"]) =>
+    plan.steps.filter((step) => step.status === status);
+
+  return {
+    planId: plan.id,
+    completedNodes: stepsWith("completed").map((step) => step.name),
+    failedNodes: stepsWith("failed").map((step) => step.name),
+    outputs: Object.fromEntries(
+      stepsWith("completed").map((step) => [step.name, step.output])
+    ),
+  };
+}
+
+/**
+ * Record an attempt at a step that just settled. The step keeps the start
+ * time of its first attempt.
+ */
+function recordAttempt(
+  step: WorkflowStepDefinition,
+  attempts: NonNullable<WorkflowStepDefinition["attempts"]>,
+  attempt: number,
+  error?: unknown
+): void {
+  attempts.push({
+    attempt,
+    startTime: step.startTime ?? Date.now(),
+    endTime: step.endTime ?? Date.now(),
+    ...(error !== undefined && {
+      error: {
+        code: classifyError(error),
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+    }),
+  });
+  step.startTime = attempts[0].startTime;
+}
+
+function findCompletedIteration(
+  step: WorkflowStepDefinition,
+  index: number
+): StepIteration | undefined {
+  return step.iterations?.find(
+    (iteration) => iteration.index === index && iteration.status === "completed"
+  );
+}
+
+/**
+ * Decide whether a step is skipped: when all of its dependencies were
+ * skipped, when it belongs to a branch its branch step did not select, or
+ * when its condition is false
+ */
+function shouldSkipStep(
+  plan: WorkflowPlan,
+  step: WorkflowStepDefinition,
+  scope: ConditionScope
+): boolean {
+  const dependencies = getDependencies(plan, step.id);
+
+  if (
+    dependencies.length > 0 &&
+    dependencies.every((dependency) => dependency.status === "skipped")
+  ) {
+    return true;
+  }
+
+  if (
+    dependencies.some(
+      (dependency) =>
+        dependency.type === "branch" && !isOnSelectedBranch(dependency, step)
+    )
+  ) {
+    return true;
+  }
+
+  return (
+    step.condition !== undefined && !evaluateCondition(step.condition, scope)
+  );
+}
+
+/**
+ * Check whether a step may run after a branch step. Steps that depend on the
+ * branch step without being listed in any of its branches always run.
+ */
+function isOnSelectedBranch(
+  branchStep: WorkflowStepDefinition,
+  step: WorkflowStepDefinition
+): boolean {
+  const listsStep = (candidate: { steps: string[] }) =>
+    candidate.steps.includes(step.name) || candidate.steps.includes(step.id);
+  const branches = branchStep.branches ?? [];
+
+  if (!branches.some(listsStep)) {
+    return true;
+  }
+
+  const selected = (branchStep.output as BranchOutput | undefined)?.branch;
+  const branch = branches.find((b) => b.name === selected);
+
+  return branch !== undefined && listsStep(branch);
+}
+
+/**
+ * Run a handler with an optional timeout. The handler receives a signal that
+ * is aborted when the timeout fires or the execution signal aborts, and the
+ * timer is always cleared once the handler settles. A plan deadline fails
+ * the handler at once, even if it ignores its signal.
+ */
+function invokeHandler(
+  handler: StepHandler,
+  step: WorkflowStepDefinition,
+  context: ExecutionContext,
+  timeout?: number
+): Promise<unknown> {
+  const parent = context.signal;
+  const controller = new AbortController();
+
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onParentAbort);
+    };
+
+    function onParentAbort() {
+      controller.abort(parent?.reason);
+
+      if (parent?.reason instanceof TimeoutError) {
+        cleanup();
+        reject(parent.reason);
+      }
+    }
+
+    if (parent?.aborted) {
+      onParentAbort();
+    } else {
+      parent?.addEventListener("abort", onParentAbort, { once: true });
+    }
+
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        const error = new TimeoutError("Step execution timeout", {
+          stepId: step.id,
+          timeout,
+        });
+        cleanup();
+        controller.abort(error);
+        reject(error);
+      }, timeout);
+    }
+
+    Promise.resolve()
+      .then(() => handler(step, { ...context, signal: controller.signal }))
+      .then(
+        (result) => {
+          cleanup();
+          resolve(result);
+        },
+        (error) => {
+          cleanup();
+          reject(error);
+        }
+      );
+  });
+}
+
+/**
+ * Whether the execution was interrupted by cancellation rather than failed
+ * by the plan deadline
+ */
+function isInterrupted(signal?: AbortSignal): boolean {
+  return signal?.aborted === true && !(signal.reason instanceof TimeoutError);
+}
+
+function combineSignals(
+  ...signals: Array<AbortSignal | undefined>
+): AbortSignal | undefined {
+  const defined = signals.filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+
+  return defined.length > 1 ? AbortSignal.any(defined) : defined[0];
+}
+
+/**
+ * Sleep for the given time, returning early if the signal is aborted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
     };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function setStepStatuses(
+  plan: WorkflowPlan,
+  from: WorkflowStepDefinition["status"],
+  to: WorkflowStepDefinition["status"]
+): void {
+  for (const step of plan.steps) {
+    if (step.status === from) {
+      step.status = to;
+    }
   }
 }
 
+function createExecutionHandle(
+  controller: ExecutionController,
+  result: Promise<unknown[]>
+): ExecutionHandle {
+  return {
+    result,
+    get signal() {
+      return controller.signal;
+    },
+    get state() {
+      return controller.state;
+    },
+    pause: () => controller.pause(),
+    resume: () => controller.resume(),
+    cancel: (reason) => controller.cancel(reason),
+  };
+}
+
 /**
  * Simple semaphore for controlling concurrency
  */
@@ -329,3 +2209,62 @@ class Semaphore {
     }
   }
 }
+
+/**
+ * Deadline of a plan execution. Its signal aborts with a TimeoutError once
+ * the timeout has passed; the clock stops while the deadline is held.
+ */
+class PlanDeadline {
+  readonly error: TimeoutError;
+  private readonly controller = new AbortController();
+  private remaining: number;
+  private startedAt = 0;
+  private holds = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(planId: string, timeout: number) {
+    this.error = new TimeoutError("Plan execution timeout", {
+      planId,
+      timeout,
+    });
+    this.remaining = timeout;
+    this.start();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get expired(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  hold(): void {
+    this.holds += 1;
+
+    if (this.holds === 1 && !this.expired) {
+      clearTimeout(this.timer);
+      this.remaining -= Date.now() - this.startedAt;
+    }
+  }
+
+  release(): void {
+    this.holds -= 1;
+
+    if (this.holds === 0 && !this.expired) {
+      this.start();
+    }
+  }
+
+  clear(): void {
+    clearTimeout(this.timer);
+  }
+
+  private start(): void {
+    this.startedAt = Date.now();
+    this.timer = setTimeout(
+      () => this.controller.abort(this.error),
+      Math.max(this.remaining, 0)
+    );
+  }
+}
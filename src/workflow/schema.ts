@@ -0,0 +1,276 @@
+/**
+ * Workflow Schema - Canonical workflow plan model
+ *
+ * Single source of truth for workflow plan and step shapes. The plan builder,
+ * runner, engine, stores and API contracts all derive their types from the
+ * zod schemas declared here.
+ */
+
+import { z } from "zod";
+
+// Zod Schemas
+export const StepTypeSchema = z.enum([
+  "action",
+  "agent_init",
+  "agent_creation",
+  "model_validation",
+  "communication",
+  "checkpoint",
+  "recovery",
+  "coder",
+  "browser",
+  "branch",
+  "map",
+  "loop",
+  "approval",
+  "subworkflow",
+]);
+
+export const StepStatusSchema = z.enum([
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "paused",
+  "skipped",
+  "waiting_for_input",
+]);
+
+export const WorkflowPlanStatusSchema = StepStatusSchema;
+
+export const StepErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+export const RetryPolicySchema = z.object({
+  /** Total attempts including the first one */
+  maxAttempts: z.number().int().positive(),
+  /** Delay before the first retry in milliseconds */
+  delay: z.number().nonnegative().optional(),
+  backoffMultiplier: z.number().positive().optional(),
+  maxDelay: z.number().nonnegative().optional(),
+  /** Randomize each delay by up to this fraction of itself */
+  jitter: z.number().min(0).max(1).optional(),
+  /** Error codes worth retrying; defaults to transient failures */
+  retryOn: z.array(z.string()).optional(),
+});
+
+export const StepAttemptSchema = z.object({
+  attempt: z.number().int().positive(),
+  startTime: z.number(),
+  endTime: z.number(),
+  error: StepErrorSchema.optional(),
+});
+
+export const BranchSchema = z.object({
+  name: z.string().min(1),
+  /** Condition selecting this branch; omit for the default branch */
+  when: z.string().optional(),
+  /** Names or IDs of the steps that start this branch */
+  steps: z.array(z.string()),
+});
+
+/** Fields shared by plan steps, loop sub-plan steps and map child steps */
+export const StepFieldsSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  type: StepTypeSchema,
+  input: z.record(z.unknown()).optional(),
+  config: z.record(z.unknown()).optional(),
+  /** Names of steps in the same definition that must complete first */
+  dependsOn: z.array(z.string()).optional(),
+  retry: RetryPolicySchema.optional(),
+  /** Step timeout in milliseconds, applied to every attempt */
+  timeout: z.number().positive().optional(),
+  /** Expression over upstream outputs and plan context; false skips the step */
+  condition: z.string().optional(),
+});
+
+export const MapConfigSchema = z.object({
+  /** Expression yielding the array to map over, e.g. `steps.list.output.files` */
+  over: z.string().min(1),
+  /** Step run once per item; `{{item}}` and `{{index}}` resolve in its input */
+  step: StepFieldsSchema.pick({
+    type: true,
+    description: true,
+    input: true,
+    config: true,
+    retry: true,
+    timeout: true,
+  }),
+  /** Maximum number of items processed at once */
+  concurrency: z.number().int().positive().optional(),
+});
+
+export const LoopConfigSchema = z.object({
+  /** Sub-plan run once per iteration; `dependsOn` refers to sibling steps */
+  steps: z.array(StepFieldsSchema).min(1),
+  /** Condition over the iteration's step outputs that ends the loop */
+  until: z.string().optional(),
+  maxIterations: z.number().int().positive(),
+});
+
+export const ApprovalConfigSchema = z.object({
+  /** Question shown to the approver; supports `{{steps...}}` templates */
+  question: z.string().min(1),
+  /** Details shown alongside the question; supports templates */
+  context: z.record(z.unknown()).optional(),
+  /** Milliseconds to wait for a decision before the step fails */
+  expiresIn: z.number().positive().optional(),
+});
+
+/**
+ * Source of a `subworkflow` step's definition; exactly one of `definition`,
+ * `file` and `planId` is set
+ */
+export const SubworkflowConfigSchema = z.object({
+  /** Inline WorkflowPlanDefinition, validated when the parent plan is */
+  definition: z.record(z.unknown()).optional(),
+  /** Path of a YAML or JSON definition file */
+  file: z.string().min(1).optional(),
+  /** ID of a stored plan whose definition is reused */
+  planId: z.string().min(1).optional(),
+  /** Values merged into the sub-workflow context; supports templates */
+  context: z.record(z.unknown()).optional(),
+});
+
+export const StepIterationSchema = z.object({
+  index: z.number().int().nonnegative(),
+  status: StepStatusSchema,
+  output: z.unknown().optional(),
+  error: StepErrorSchema.optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+});
+
+export const WorkflowStepInputSchema = StepFieldsSchema.extend({
+  /** Paths a `branch` step chooses between; the first matching one runs */
+  branches: z.array(BranchSchema).optional(),
+  /** Item source and child step of a `map` step */
+  map: MapConfigSchema.optional(),
+  /** Sub-plan and exit condition of a `loop` step */
+  loop: LoopConfigSchema.optional(),
+  /** Question an `approval` step asks before the plan continues */
+  approval: ApprovalConfigSchema.optional(),
+  /** Definition a `subworkflow` step runs as a child plan */
+  subworkflow: SubworkflowConfigSchema.optional(),
+});
+
+export const WorkflowStepDefinitionSchema = WorkflowStepInputSchema.extend({
+  id: z.string().min(1),
+  status: StepStatusSchema,
+  dependencies: z.array(z.string()),
+  output: z.unknown().optional(),
+  error: StepErrorSchema.optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+  /** One entry per execution attempt, in order */
+  attempts: z.array(StepAttemptSchema).optional(),
+  /** Per-item or per-iteration state of `map` and `loop` steps */
+  iterations: z.array(StepIterationSchema).optional(),
+  /** ID of the child plan a `subworkflow` step created */
+  subworkflowPlanId: z.string().optional(),
+});
+
+export const PlanConfigSchema = z.object({
+  maxSteps: z.number().int().positive().optional(),
+  /**
+   * Deadline of each plan execution in milliseconds. Steps still unfinished
+   * when it passes fail with a TIMEOUT_ERROR; time spent waiting for input
+   * does not count.
+   */
+  timeout: z.number().positive().optional(),
+  retryAttempts: z.number().int().nonnegative().optional(),
+  retryDelay: z.number().nonnegative().optional(),
+});
+
+export const WorkflowPlanSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  steps: z.array(WorkflowStepDefinitionSchema),
+  config: PlanConfigSchema.required(),
+  context: z.record(z.unknown()),
+  status: WorkflowPlanStatusSchema.optional(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const WorkflowPlanInputSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  config: PlanConfigSchema.optional(),
+  context: z.record(z.unknown()).optional(),
+});
+
+export const WorkflowPlanDefinitionSchema = WorkflowPlanInputSchema.extend({
+  steps: z.array(WorkflowStepInputSchema).min(1),
+});
+
+/**
+ * Snapshot of a step as it stood at the end of one execution
+ */
+export const StepRunSchema = z.object({
+  stepId: z.string().min(1),
+  name: z.string(),
+  type: z.string(),
+  status: StepStatusSchema,
+  input: z.record(z.unknown()).optional(),
+  output: z.unknown().optional(),
+  error: StepErrorSchema.optional(),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+  duration: z.number().nonnegative().optional(),
+  /** Number of handler attempts the step took */
+  attempts: z.number().int().nonnegative(),
+});
+
+/**
+ * One run of a plan. Plans are executed in place, so these records are the
+ * only trace of earlier runs.
+ */
+export const WorkflowExecutionRecordSchema = z.object({
+  executionId: z.string().min(1),
+  planId: z.string().min(1),
+  planName: z.string(),
+  status: WorkflowPlanStatusSchema,
+  /** Data the run was started with */
+  context: z.record(z.unknown()),
+  startedAt: z.number(),
+  completedAt: z.number().optional(),
+  duration: z.number().nonnegative().optional(),
+  /** Error that ended a failed run */
+  error: StepErrorSchema.optional(),
+  steps: z.array(StepRunSchema),
+});
+
+// Inferred Types
+export type StepType = z.infer<typeof StepTypeSchema>;
+export type StepStatus = z.infer<typeof StepStatusSchema>;
+export type WorkflowPlanStatus = z.infer<typeof WorkflowPlanStatusSchema>;
+export type StepError = z.infer<typeof StepErrorSchema>;
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+export type StepAttempt = z.infer<typeof StepAttemptSchema>;
+export type Branch = z.infer<typeof BranchSchema>;
+export type StepFields = z.infer<typeof StepFieldsSchema>;
+export type MapConfig = z.infer<typeof MapConfigSchema>;
+export type LoopConfig = z.infer<typeof LoopConfigSchema>;
+export type ApprovalConfig = z.infer<typeof ApprovalConfigSchema>;
+export type SubworkflowConfig = z.infer<typeof SubworkflowConfigSchema>;
+export type StepIteration = z.infer<typeof StepIterationSchema>;
+export type WorkflowStepInput = z.infer<typeof WorkflowStepInputSchema>;
+export type WorkflowStepDefinition = z.infer<
+  typeof WorkflowStepDefinitionSchema
+>;
+export type PlanConfig = z.infer<typeof PlanConfigSchema>;
+export type WorkflowPlan = z.infer<typeof WorkflowPlanSchema>;
+export type WorkflowPlanInput = z.infer<typeof WorkflowPlanInputSchema>;
+export type WorkflowPlanDefinition = z.infer<
+  typeof WorkflowPlanDefinitionSchema
+>;
+export type StepRun = z.infer<typeof StepRunSchema>;
+export type WorkflowExecutionRecord = z.infer<
+  typeof WorkflowExecutionRecordSchema
+>;
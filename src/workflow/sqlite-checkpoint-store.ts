@@ -0,0 +1,136 @@
+/**
+ * Workflow SQLite Checkpoint Store - SQLite-backed checkpoint storage
+ *
+ * Kept separate from the other checkpoint stores so the native SQLite
+ * binding is only loaded by callers that use it. better-sqlite3 is an
+ * optional peer dependency, imported when the store is first used.
+ */
+
+import type Database from "better-sqlite3";
+import { WorkflowError } from "../core/errors";
+import type { CheckpointStore } from "./checkpoint-store";
+import type { WorkflowCheckpoint } from "./recovery";
+
+type CheckpointRow = {
+  data: string;
+};
+
+/**
+ * SQLite checkpoint store, keeping one row per checkpoint
+ */
+export class SqliteCheckpointStore implements CheckpointStore {
+  private readonly filename: string;
+  private connection?: Promise<Database.Database>;
+
+  /**
+   * @param filename Database file path, or ":memory:" for a private database
+   */
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+    const db = await this.open();
+
+    db.prepare(
+      `INSERT INTO workflow_checkpoints (id, plan_id, timestamp, data)
+       VALUES (@id, @planId, @timestamp, @data)
+       ON CONFLICT (id) DO UPDATE SET
+         plan_id = excluded.plan_id,
+         timestamp = excluded.timestamp,
+         data = excluded.data`
+    ).run({
+      id: checkpoint.id,
+      planId: checkpoint.planId,
+      timestamp: checkpoint.timestamp,
+      data: JSON.stringify(checkpoint),
+    });
+  }
+
+  async load(checkpointId: string): Promise<WorkflowCheckpoint | null> {
+    const db = await this.open();
+    const row = db
+      .prepare("SELECT data FROM workflow_checkpoints WHERE id = ?")
+      .get(checkpointId) as CheckpointRow | undefined;
+
+    return row ? (JSON.parse(row.data) as WorkflowCheckpoint) : null;
+  }
+
+  async list(planId?: string): Promise<WorkflowCheckpoint[]> {
+    const db = await this.open();
+    const rows = (
+      planId === undefined
+        ? db
+            .prepare(
+              "SELECT data FROM workflow_checkpoints ORDER BY timestamp, rowid"
+            )
+            .all()
+        : db
+            .prepare(
+              `SELECT data FROM workflow_checkpoints WHERE plan_id = ?
+               ORDER BY timestamp, rowid`
+            )
+            .all(planId)
+    ) as CheckpointRow[];
+
+    return rows.map((row) => JSON.parse(row.data) as WorkflowCheckpoint);
+  }
+
+  async delete(checkpointId: string): Promise<boolean> {
+    const db = await this.open();
+    const result = db
+      .prepare("DELETE FROM workflow_checkpoints WHERE id = ?")
+      .run(checkpointId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Close the underlying database connection, if it was opened
+   */
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+
+    (await connection)?.close();
+  }
+
+  private open(): Promise<Database.Database> {
+    this.connection ??= openDatabase(this.filename);
+    return this.connection;
+  }
+}
+
+/**
+ * Load better-sqlite3 and open the database, creating the checkpoint table
+ */
+async function openDatabase(filename: string): Promise<Database.Database> {
+  let SqliteDatabase: typeof Database;
+
+  try {
+    SqliteDatabase = (await import("better-sqlite3")).default;
+  } catch (error) {
+    throw new WorkflowError(
+      "SqliteCheckpointStore requires the better-sqlite3 package",
+      {
+        filename,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+
+  const db = new SqliteDatabase(filename);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS workflow_checkpoints (
+      id TEXT PRIMARY KEY,
+      plan_id TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS workflow_checkpoints_plan
+      ON workflow_checkpoints (plan_id, timestamp);
+  `);
+
+  return db;
+}
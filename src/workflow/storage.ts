@@ -0,0 +1,145 @@
+/**
+ * Workflow Storage - Helpers shared by the workflow stores
+ *
+ * Generates record IDs and keeps a directory of JSON files, one per record,
+ * behind the file system plan and history stores. Records are replaced
+ * atomically, so a crash or another process never leaves one half written.
+ */
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { WorkflowError } from "../core/errors";
+
+export type JsonFileDirectoryOptions<T> = {
+  /** Validate a parsed file, throwing when it is not a record */
+  parse: (data: unknown) => T;
+  /** Record name used in errors, e.g. "workflow plan" */
+  name: string;
+  /** Key of the record ID in error details, e.g. "planId" */
+  idKey: string;
+};
+
+const RECORD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const RECORD_FILE_EXTENSION = ".json";
+
+export function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export function isFileNotFound(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as { code?: unknown }).code === "ENOENT"
+  );
+}
+
+/**
+ * Directory of JSON files named after the ID of the record they hold
+ */
+export class JsonFileDirectory<T> {
+  private readonly directory: string;
+  private readonly options: JsonFileDirectoryOptions<T>;
+
+  constructor(directory: string, options: JsonFileDirectoryOptions<T>) {
+    this.directory = directory;
+    this.options = options;
+  }
+
+  /**
+   * Write a record to a temporary file and rename it over the record's
+   * file, so readers never see a partly written record
+   */
+  async save(id: string, record: T): Promise<void> {
+    const path = this.getPath(id);
+    const temporaryPath = `${path}.${generateId(String(process.pid))}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+
+    try {
+      await writeFile(temporaryPath, JSON.stringify(record, null, 2), "utf-8");
+      await rename(temporaryPath, path);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  async load(id: string): Promise<T | null> {
+    const path = this.getPath(id);
+
+    try {
+      const contents = await readFile(path, "utf-8");
+      return this.options.parse(JSON.parse(contents));
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return null;
+      }
+
+      throw new WorkflowError(`Failed to load ${this.options.name}`, {
+        [this.options.idKey]: id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  /**
+   * Every record in the directory, in no particular order
+   */
+  async list(): Promise<T[]> {
+    let entries: string[];
+
+    try {
+      entries = await readdir(this.directory);
+    } catch (error) {
+      if (isFileNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: T[] = [];
+
+    for (const entry of entries) {
+      if (!entry.endsWith(RECORD_FILE_EXTENSION)) {
+        continue;
+      }
+
+      const record = await this.load(
+        entry.slice(0, -RECORD_FILE_EXTENSION.length)
+      );
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.load(id);
+    if (!existing) {
+      return false;
+    }
+
+    await rm(this.getPath(id), { force: true });
+    return true;
+  }
+
+  private getPath(id: string): string {
+    if (!RECORD_ID_PATTERN.test(id)) {
+      throw new WorkflowError(`Invalid ${this.options.name} ID`, {
+        [this.options.idKey]: id,
+      });
+    }
+
+    return join(this.directory, `${id}${RECORD_FILE_EXTENSION}`);
+  }
+}
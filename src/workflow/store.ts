@@ -0,0 +1,132 @@
+/**
+ * Workflow Plan Store - Persistent storage for workflow plans
+ *
+ * Provides pluggable storage backends so plans can be saved, reloaded and
+ * resumed across processes by the workflow engine.
+ */
+
+import {
+  type WorkflowPlan,
+  WorkflowPlanSchema,
+  type WorkflowPlanStatus,
+} from "./schema";
+import { JsonFileDirectory } from "./storage";
+
+export type WorkflowPlanStore = {
+  save(plan: WorkflowPlan): Promise<void>;
+  load(planId: string): Promise<WorkflowPlan | null>;
+  list(): Promise<WorkflowPlan[]>;
+  delete(planId: string): Promise<boolean>;
+  findByStatus(status: WorkflowPlanStatus): Promise<WorkflowPlan[]>;
+};
+
+/**
+ * Derive the overall status of a plan from its steps
+ */
+export function derivePlanStatus(plan: WorkflowPlan): WorkflowPlanStatus {
+  if (plan.status) {
+    return plan.status;
+  }
+
+  const statuses = plan.steps.map((s) => s.status);
+
+  if (statuses.includes("failed")) {
+    return "failed";
+  }
+
+  if (statuses.includes("running")) {
+    return "running";
+  }
+
+  if (statuses.includes("waiting_for_input")) {
+    return "waiting_for_input";
+  }
+
+  if (statuses.includes("paused")) {
+    return "paused";
+  }
+
+  if (
+    statuses.length > 0 &&
+    statuses.every((s) => s === "completed" || s === "skipped")
+  ) {
+    return "completed";
+  }
+
+  return "pending";
+}
+
+/**
+ * Deep copy a plan so stored state cannot be mutated by callers
+ */
+function clonePlan(plan: WorkflowPlan): WorkflowPlan {
+  return structuredClone(plan);
+}
+
+/**
+ * In-memory plan store, useful for tests and single-process execution
+ */
+export class InMemoryWorkflowPlanStore implements WorkflowPlanStore {
+  private readonly plans: Map<string, WorkflowPlan> = new Map();
+
+  async save(plan: WorkflowPlan): Promise<void> {
+    this.plans.set(plan.id, clonePlan(plan));
+  }
+
+  async load(planId: string): Promise<WorkflowPlan | null> {
+    const plan = this.plans.get(planId);
+    return plan ? clonePlan(plan) : null;
+  }
+
+  async list(): Promise<WorkflowPlan[]> {
+    return Array.from(this.plans.values())
+      .map(clonePlan)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async delete(planId: string): Promise<boolean> {
+    return this.plans.delete(planId);
+  }
+
+  async findByStatus(status: WorkflowPlanStatus): Promise<WorkflowPlan[]> {
+    const plans = await this.list();
+    return plans.filter((plan) => derivePlanStatus(plan) === status);
+  }
+}
+
+/**
+ * File system plan store, persisting one JSON file per plan in a directory
+ */
+export class FileSystemWorkflowPlanStore implements WorkflowPlanStore {
+  private readonly files: JsonFileDirectory<WorkflowPlan>;
+
+  constructor(directory: string) {
+    this.files = new JsonFileDirectory(directory, {
+      parse: (data) => WorkflowPlanSchema.parse(data),
+      name: "workflow plan",
+      idKey: "planId",
+    });
+  }
+
+  async save(plan: WorkflowPlan): Promise<void> {
+    await this.files.save(plan.id, plan);
+  }
+
+  load(planId: string): Promise<WorkflowPlan | null> {
+    return this.files.load(planId);
+  }
+
+  async list(): Promise<WorkflowPlan[]> {
+    const plans = await this.files.list();
+    return plans.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  delete(planId: string): Promise<boolean> {
+    return this.files.delete(planId);
+  }
+
+  async findByStatus(status: WorkflowPlanStatus): Promise<WorkflowPlan[]> {
+    const plans = await this.list();
+    return plans.filter((plan) => derivePlanStatus(plan) === status);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Workflow Templates - Step input templating
+ *
+ * Resolves `{{steps.<name or id>.output.<path>}}` references in step input
+ * against the outputs of upstream steps before a handler is invoked. Map
+ * child steps additionally resolve `{{item.<path>}}` and `{{index}}`.
+ *
+ * Step names may contain dots; a reference names the step up to its first
+ * `.output`, so `{{steps.build.v2.output.url}}` reads step `build.v2`.
+ */
+
+import { WorkflowError } from "../core/errors";
+import { getDependencies, type WorkflowPlan } from "./plan";
+import type { WorkflowStepDefinition } from "./schema";
+
+/**
+ * Outputs of upstream steps, keyed by both step ID and step name
+ */
+export type StepOutputs = Readonly<Record<string, unknown>>;
+
+const TEMPLATE_PATTERN =
+  /\{\{\s*steps\.([^}]+?)\.output((?:\.[^.}\s]+)*)\s*\}\}/g;
+const FULL_TEMPLATE_PATTERN =
+  /^\{\{\s*steps\.([^}]+?)\.output((?:\.[^.}\s]+)*)\s*\}\}$/;
+const LOCAL_PATTERN = /\{\{\s*(item|index)((?:\.[^.}\s]+)*)\s*\}\}/g;
+const FULL_LOCAL_PATTERN = /^\{\{\s*(item|index)((?:\.[^.}\s]+)*)\s*\}\}$/;
+
+/**
+ * Values local to a map child step
+ */
+export type TemplateLocals = {
+  item: unknown;
+  index: number;
+};
+
+/**
+ * Collect outputs of the direct dependencies of a step
+ */
+export function collectDependencyOutputs(
+  plan: WorkflowPlan,
+  step: WorkflowStepDefinition
+): StepOutputs {
+  const outputs: Record<string, unknown> = {};
+
+  for (const dependency of getDependencies(plan, step.id)) {
+    outputs[dependency.id] = dependency.output;
+    outputs[dependency.name] = dependency.output;
+  }
+
+  return outputs;
+}
+
+/**
+ * Read a dependency output by step ID or name
+ */
+export function getStepOutput<T = unknown>(
+  outputs: StepOutputs | undefined,
+  stepRef: string
+): T | undefined {
+  return outputs?.[stepRef] as T | undefined;
+}
+
+/**
+ * Resolve template references in a value, recursing into arrays and objects.
+ * A string consisting of a single reference is replaced by the raw value;
+ * references embedded in longer strings are interpolated as text, and must
+ * not resolve to undefined.
+ */
+export function resolveTemplates<T>(
+  value: T,
+  outputs: StepOutputs,
+  locals?: TemplateLocals
+): T {
+  if (typeof value === "string") {
+    return resolveString(value, outputs, locals) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, outputs, locals)) as T;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const resolved: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      resolved[key] = resolveTemplates(item, outputs, locals);
+    }
+    return resolved as T;
+  }
+
+  return value;
+}
+
+function resolveString(
+  value: string,
+  outputs: StepOutputs,
+  locals?: TemplateLocals
+): unknown {
+  const full = FULL_TEMPLATE_PATTERN.exec(value);
+  if (full) {
+    return lookup(outputs, full[1].trim(), full[2]);
+  }
+
+  if (locals) {
+    const fullLocal = FULL_LOCAL_PATTERN.exec(value);
+    if (fullLocal) {
+      return readPath(
+        locals[fullLocal[1] as keyof TemplateLocals],
+        fullLocal[2]
+      );
+    }
+  }
+
+  const interpolated = value.replace(
+    TEMPLATE_PATTERN,
+    (match, stepRef: string, path) =>
+      stringify(match, lookup(outputs, stepRef.trim(), path))
+  );
+
+  if (!locals) {
+    return interpolated;
+  }
+
+  return interpolated.replace(LOCAL_PATTERN, (match, name: string, path) =>
+    stringify(match, readPath(locals[name as keyof TemplateLocals], path))
+  );
+}
+
+/**
+ * Text of a value interpolated into a string; undefined has none
+ */
+function stringify(template: string, value: unknown): string {
+  if (value === undefined) {
+    throw new WorkflowError("Unresolved template reference", {
+      template,
+      reason: "Value is undefined",
+    });
+  }
+
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Read a dotted path from a local value; missing properties are undefined
+ */
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+
+  for (const segment of path.split(".").filter((s) => s.length > 0)) {
+    if (current === null || typeof current !== "object") {
+      return;
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+function lookup(outputs: StepOutputs, stepRef: string, path: string): unknown {
+  if (!Object.hasOwn(outputs, stepRef)) {
+    throw new WorkflowError("Unresolved template reference", {
+      stepRef,
+      reason: "Referenced step is not a dependency of this step",
+    });
+  }
+
+  let current: unknown = outputs[stepRef];
+  const segments = path.split(".").filter((segment) => segment.length > 0);
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object") {
+      throw new WorkflowError("Unresolved template reference", {
+        stepRef,
+        path,
+        reason: `Cannot read '${segment}' of a non-object value`,
+      });
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
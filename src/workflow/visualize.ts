@@ -0,0 +1,261 @@
+/**
+ * Workflow Visualization - Mermaid and Graphviz DOT export
+ *
+ * Renders workflow plans and multi-agent execution plans as flowcharts for
+ * PR descriptions and docs. Nodes are coloured by status and annotated with
+ * their type and, once finished, their duration.
+ */
+
+import { WorkflowError } from "../core/errors";
+import type { AgentTool, ExecutionPlan } from "../domain";
+import type { StepStatus, WorkflowPlan } from "./schema";
+
+export type GraphFormat = "mermaid" | "dot";
+
+export const GRAPH_FORMATS: readonly GraphFormat[] = ["mermaid", "dot"];
+
+export type VisualizablePlan = WorkflowPlan | ExecutionPlan;
+
+type GraphNode = {
+  id: string;
+  label: string;
+  detail: string;
+  status: StepStatus;
+};
+
+type PlanGraph = {
+  title: string;
+  nodes: GraphNode[];
+  edges: Array<{ from: string; to: string }>;
+};
+
+const TRAILING_ZERO_PATTERN = /\.0$/;
+
+/** Fill and stroke colour of nodes in each status */
+const STATUS_COLORS: Record<StepStatus, { fill: string; stroke: string }> = {
+  pending: { fill: "#f3f4f6", stroke: "#9ca3af" },
+  running: { fill: "#dbeafe", stroke: "#3b82f6" },
+  completed: { fill: "#dcfce7", stroke: "#22c55e" },
+  failed: { fill: "#fee2e2", stroke: "#ef4444" },
+  paused: { fill: "#fef3c7", stroke: "#f59e0b" },
+  skipped: { fill: "#f9fafb", stroke: "#d1d5db" },
+  waiting_for_input: { fill: "#ede9fe", stroke: "#8b5cf6" },
+};
+
+/** Execution node statuses mapped onto workflow step statuses */
+const EXECUTION_NODE_STATUSES: Record<
+  ExecutionPlan["nodes"][string]["status"],
+  StepStatus
+> = {
+  pending: "pending",
+  running: "running",
+  complete: "completed",
+  failed: "failed",
+  skipped: "skipped",
+};
+
+/**
+ * Render a plan in the given format
+ */
+export function renderPlanGraph(
+  plan: VisualizablePlan,
+  format: GraphFormat
+): string {
+  switch (format) {
+    case "mermaid":
+      return renderMermaid(plan);
+    case "dot":
+      return renderDot(plan);
+    default:
+      throw new WorkflowError("Unsupported graph format", {
+        format,
+        supported: GRAPH_FORMATS,
+      });
+  }
+}
+
+/**
+ * Render a plan as a Mermaid flowchart
+ */
+export function renderMermaid(plan: VisualizablePlan): string {
+  const graph = toPlanGraph(plan);
+  const lines = ["flowchart TD"];
+
+  for (const node of graph.nodes) {
+    const label = [node.label, node.detail]
+      .filter(Boolean)
+      .map(escapeMermaid)
+      .join("<br/>");
+    lines.push(`  ${node.id}["${label}"]`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} --> ${edge.to}`);
+  }
+
+  for (const [status, nodes] of groupByStatus(graph.nodes)) {
+    const { fill, stroke } = STATUS_COLORS[status];
+    lines.push(`  classDef ${status} fill:${fill},stroke:${stroke}`);
+    lines.push(`  class ${nodes.map((node) => node.id).join(",")} ${status}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Render a plan as a Graphviz DOT digraph
+ */
+export function renderDot(plan: VisualizablePlan): string {
+  const graph = toPlanGraph(plan);
+  const lines = [
+    `digraph ${quoteDot(graph.title)} {`,
+    "  rankdir=TB;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const { fill, stroke } = STATUS_COLORS[node.status];
+    const label = [node.label, node.detail].filter(Boolean).join("\n");
+    lines.push(
+      `  ${node.id} [label=${quoteDot(label)}, fillcolor="${fill}", color="${stroke}"];`
+    );
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} -> ${edge.to};`);
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Normalize either plan shape into nodes and edges. Node IDs are generated
+ * so that arbitrary step and node IDs never need escaping.
+ */
+function toPlanGraph(plan: VisualizablePlan): PlanGraph {
+  if ("steps" in plan) {
+    const ids = new Map(
+      plan.steps.map((step, index) => [step.id, `s${index}`])
+    );
+
+    return {
+      title: plan.name,
+      nodes: plan.steps.map((step, index) => ({
+        id: `s${index}`,
+        label: step.name,
+        detail: describeNode(step.type, step.startTime, step.endTime),
+        status: step.status,
+      })),
+      edges: plan.steps.flatMap((step) =>
+        step.dependencies.flatMap((dependencyId) => {
+          const from = ids.get(dependencyId);
+          const to = ids.get(step.id);
+          return from && to ? [{ from, to }] : [];
+        })
+      ),
+    };
+  }
+
+  const nodes = Object.values(plan.nodes);
+  const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+
+  return {
+    title: plan.id,
+    nodes: nodes.map((node, index) => ({
+      id: `n${index}`,
+      label: node.id,
+      detail: describeNode(
+        describeTool(node.tool),
+        node.startTime,
+        node.endTime
+      ),
+      status: EXECUTION_NODE_STATUSES[node.status],
+    })),
+    edges: nodes.flatMap((node) =>
+      node.dependencies.flatMap((dependencyId) => {
+        const from = ids.get(dependencyId);
+        const to = ids.get(node.id);
+        return from && to ? [{ from, to }] : [];
+      })
+    ),
+  };
+}
+
+/**
+ * Join a node's kind with its duration once it has finished
+ */
+function describeNode(
+  kind: string,
+  startTime: number | undefined,
+  endTime: number | undefined
+): string {
+  return startTime !== undefined && endTime !== undefined
+    ? `${kind} · ${formatDuration(endTime - startTime)}`
+    : kind;
+}
+
+/**
+ * Summarize the tool an execution node runs in a few words
+ */
+function describeTool(tool: AgentTool): string {
+  switch (tool.tag) {
+    case "CreateAgent":
+      return `create ${tool.agentType} ${tool.name}`;
+    case "CommandAgent":
+      return `command ${tool.name}`;
+    case "BrowserUse":
+      return `browse ${tool.url ?? truncate(tool.task, 40)}`;
+    default:
+      return "unknown tool";
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function groupByStatus(nodes: GraphNode[]): Map<StepStatus, GraphNode[]> {
+  const groups: Map<StepStatus, GraphNode[]> = new Map();
+
+  for (const node of nodes) {
+    groups.set(node.status, [...(groups.get(node.status) ?? []), node]);
+  }
+
+  return groups;
+}
+
+/**
+ * Format milliseconds as e.g. `350ms`, `1.2s` or `2m 5s`
+ */
+function formatDuration(ms: number): string {
+  if (Math.round(ms) < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+
+  const tenths = Math.round(ms / 100);
+  if (tenths < 600) {
+    return `${(tenths / 10).toFixed(1).replace(TRAILING_ZERO_PATTERN, "")}s`;
+  }
+
+  // Round before splitting so 119.6s reads `2m`, not `1m 60s`
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+}
+
+/**
+ * Escape text for a quoted Mermaid label using its entity codes
+ */
+function escapeMermaid(text: string): string {
+  return text
+    .replace(/&/g, "#amp;")
+    .replace(/"/g, "#quot;")
+    .replace(/</g, "#lt;")
+    .replace(/>/g, "#gt;");
+}
+
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
@@ -1,4 +1,4 @@
-import { Effect, Layer } from "effect";
+import { Effect, Fiber, Layer } from "effect";
 import { describe, expect, it } from "vitest";
 import type { AgentTool, ExecutionPlan } from "../src/domain.js";
 import { BrowserServiceTag } from "../src/services/BrowserService.js";
@@ -6,6 +6,7 @@ import { CoderServiceTag } from "../src/services/CoderService.js";
 import {
   ExecutionServiceLive,
   ExecutionServiceTag,
+  makeExecutionServiceLive,
 } from "../src/services/ExecutionService.js";
 
 // Mock Services
@@ -245,4 +246,297 @@ describe("ExecutionService", () => {
     expect(result.failedNodes).toContain("node-1");
     expect(result.completedNodes).toContain("node-2");
   });
+
+  describe("partial failures", () => {
+    // Coder fails on instructions mentioning "fail", browser always succeeds
+    const PartialLayer = ExecutionServiceLive.pipe(
+      Layer.provide(
+        Layer.succeed(CoderServiceTag, {
+          createSession: (name: string) => Effect.succeed(`Session: ${name}`),
+          execute: (_sessionId: string, instruction: string) =>
+            instruction.includes("fail")
+              ? Effect.fail(new Error(`Coder failed: ${instruction}`))
+              : Effect.succeed(`Executed: ${instruction}`),
+        })
+      ),
+      Layer.provide(MockBrowserService)
+    );
+
+    const command = (
+      id: string,
+      instruction: string,
+      dependencies: string[] = []
+    ) => ({
+      id,
+      tool: {
+        tag: "CommandAgent" as const,
+        name: "coder-1",
+        instruction,
+      },
+      dependencies,
+      status: "pending" as const,
+    });
+
+    const run = (plan: ExecutionPlan) =>
+      Effect.runPromise(
+        Effect.gen(function* (_) {
+          const executor = yield* _(ExecutionServiceTag);
+          return yield* _(executor.executeParallel(plan));
+        }).pipe(Effect.provide(PartialLayer))
+      );
+
+    it("should only fail the node that failed within a batch", async () => {
+      const result = await run({
+        id: "plan-6",
+        nodes: {
+          "node-1": command("node-1", "please fail"),
+          "node-2": command("node-2", "succeed"),
+        },
+        parallelBatches: [["node-1", "node-2"]],
+      });
+
+      expect(result.failedNodes).toEqual(["node-1"]);
+      expect(result.completedNodes).toEqual(["node-2"]);
+      expect(result.outputs["node-2"]).toBe("Executed: succeed");
+      expect(result.nodes?.["node-1"]).toMatchObject({
+        status: "failed",
+        error: "Coder failed: please fail",
+      });
+    });
+
+    it("should record per-node status, output and timing", async () => {
+      const result = await run({
+        id: "plan-7",
+        nodes: { "node-1": command("node-1", "build") },
+        parallelBatches: [["node-1"]],
+      });
+
+      const node = result.nodes?.["node-1"];
+      expect(node?.status).toBe("complete");
+      expect(node?.output).toBe("Executed: build");
+      expect(node?.startTime).toBeTypeOf("number");
+      expect(node?.endTime).toBeGreaterThanOrEqual(node?.startTime ?? 0);
+    });
+
+    it("should skip nodes whose dependencies failed or were skipped", async () => {
+      const result = await run({
+        id: "plan-8",
+        nodes: {
+          "node-1": command("node-1", "fail build"),
+          "node-2": command("node-2", "independent"),
+          "node-3": command("node-3", "test", ["node-1"]),
+          "node-4": command("node-4", "deploy", ["node-2", "node-3"]),
+        },
+        parallelBatches: [["node-1", "node-2"], ["node-3"], ["node-4"]],
+      });
+
+      expect(result.failedNodes).toEqual(["node-1"]);
+      expect(result.completedNodes).toEqual(["node-2"]);
+      expect(result.skippedNodes).toEqual(["node-3", "node-4"]);
+      expect(result.nodes?.["node-3"]).toMatchObject({
+        status: "skipped",
+        error: "Dependency node-1 did not complete",
+      });
+      expect(result.nodes?.["node-4"]?.error).toBe(
+        "Dependency node-3 did not complete"
+      );
+    });
+
+    it("should skip nodes that depend on a node not in the plan", async () => {
+      const result = await run({
+        id: "plan-9",
+        nodes: {
+          "node-1": command("node-1", "build", ["node-0"]),
+          "node-2": command("node-2", "test", ["node-1"]),
+        },
+        parallelBatches: [["node-1"], ["node-2"]],
+      });
+
+      expect(result.completedNodes).toEqual([]);
+      expect(result.skippedNodes).toEqual(["node-1", "node-2"]);
+      expect(result.nodes?.["node-1"]).toMatchObject({
+        status: "skipped",
+        error: "Dependency node-0 is not in the plan",
+      });
+    });
+  });
+
+  describe("limits", () => {
+    const nodesOf = (tools: AgentTool[]): ExecutionPlan => {
+      const ids = tools.map((_tool, index) => `node-${index + 1}`);
+      return {
+        id: "plan-limits",
+        nodes: Object.fromEntries(
+          tools.map((tool, index) => [
+            ids[index],
+            {
+              id: ids[index],
+              tool,
+              dependencies: [],
+              status: "pending" as const,
+            },
+          ])
+        ),
+        parallelBatches: [ids],
+      };
+    };
+
+    it("should cap concurrent nodes per tool tag", async () => {
+      let active = 0;
+      let peak = 0;
+      const SlowBrowserService = Layer.succeed(BrowserServiceTag, {
+        navigate: () => Effect.succeed(undefined),
+        act: (task: string) =>
+          Effect.gen(function* (_) {
+            active += 1;
+            peak = Math.max(peak, active);
+            yield* _(Effect.sleep("10 millis"));
+            active -= 1;
+            return task;
+          }),
+      });
+      const LimitedLayer = makeExecutionServiceLive({
+        concurrency: { BrowserUse: 1 },
+        rateLimits: { gemini: { capacity: 10, refillPerSecond: 100 } },
+      }).pipe(
+        Layer.provide(MockCoderService),
+        Layer.provide(SlowBrowserService)
+      );
+
+      const { result, metrics } = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const executor = yield* _(ExecutionServiceTag);
+          const executed = yield* _(
+            executor.executeParallel(
+              nodesOf([
+                { tag: "BrowserUse", task: "one" },
+                { tag: "BrowserUse", task: "two" },
+                { tag: "BrowserUse", task: "three" },
+              ])
+            )
+          );
+          return {
+            result: executed,
+            metrics: yield* _(executor.getMetrics()),
+          };
+        }).pipe(Effect.provide(LimitedLayer))
+      );
+
+      expect(result.completedNodes).toHaveLength(3);
+      expect(peak).toBe(1);
+      expect(metrics.BrowserUse).toMatchObject({
+        running: 0,
+        queued: 0,
+        completed: 3,
+      });
+      expect(metrics.BrowserUse.maxWaitMs).toBeGreaterThan(0);
+      expect(metrics.CommandAgent.completed).toBe(0);
+    });
+
+    it("should not rate limit providers without a limit", async () => {
+      const metrics = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const executor = yield* _(ExecutionServiceTag);
+          yield* _(
+            executor.executeParallel(
+              nodesOf(
+                Array.from({ length: 6 }, () => ({
+                  tag: "BrowserUse" as const,
+                  task: "look",
+                }))
+              )
+            )
+          );
+          return yield* _(executor.getMetrics());
+        }).pipe(Effect.provide(TestLayer))
+      );
+
+      // Browser nodes only wait for the single browser slot, not for tokens
+      expect(metrics.BrowserUse.completed).toBe(6);
+      expect(metrics.BrowserUse.maxWaitMs).toBeLessThan(500);
+    });
+
+    it("should rate limit nodes by provider", async () => {
+      const RateLimitedLayer = makeExecutionServiceLive({
+        rateLimits: { anthropic: { capacity: 1, refillPerSecond: 20 } },
+      }).pipe(
+        Layer.provide(MockCoderService),
+        Layer.provide(MockBrowserService)
+      );
+
+      const start = Date.now();
+      const metrics = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const executor = yield* _(ExecutionServiceTag);
+          yield* _(
+            executor.executeParallel(
+              nodesOf([
+                { tag: "CommandAgent", name: "coder", instruction: "one" },
+                { tag: "CommandAgent", name: "coder", instruction: "two" },
+                { tag: "CommandAgent", name: "coder", instruction: "three" },
+                { tag: "CreateAgent", agentType: "coder", name: "free" },
+              ])
+            )
+          );
+          return yield* _(executor.getMetrics());
+        }).pipe(Effect.provide(RateLimitedLayer))
+      );
+
+      // One token up front, then one every 50ms
+      expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+      expect(metrics.CommandAgent.completed).toBe(3);
+      expect(metrics.CommandAgent.maxWaitMs).toBeGreaterThanOrEqual(90);
+      expect(metrics.CreateAgent.maxWaitMs).toBeLessThan(50);
+    });
+
+    it("should stop counting interrupted nodes as queued", async () => {
+      const StuckBrowserService = Layer.succeed(BrowserServiceTag, {
+        navigate: () => Effect.succeed(undefined),
+        act: () => Effect.never,
+      });
+      const LimitedLayer = makeExecutionServiceLive({
+        concurrency: { BrowserUse: 1 },
+      }).pipe(
+        Layer.provide(MockCoderService),
+        Layer.provide(StuckBrowserService)
+      );
+
+      const metrics = await Effect.runPromise(
+        Effect.gen(function* (_) {
+          const executor = yield* _(ExecutionServiceTag);
+          const fiber = yield* _(
+            Effect.fork(
+              executor.executeParallel(
+                nodesOf([
+                  { tag: "BrowserUse", task: "one" },
+                  { tag: "BrowserUse", task: "two" },
+                ])
+              )
+            )
+          );
+          yield* _(Effect.sleep("20 millis"));
+          yield* _(Fiber.interrupt(fiber));
+          return yield* _(executor.getMetrics());
+        }).pipe(Effect.provide(LimitedLayer))
+      );
+
+      expect(metrics.BrowserUse).toMatchObject({ running: 0, queued: 0 });
+    });
+
+    it("should reject limits that would block nodes forever", async () => {
+      const InvalidLayer = makeExecutionServiceLive({
+        concurrency: { BrowserUse: 0 },
+        rateLimits: { gemini: { capacity: 2, refillPerSecond: 0 } },
+      }).pipe(
+        Layer.provide(MockCoderService),
+        Layer.provide(MockBrowserService)
+      );
+
+      await expect(
+        Effect.runPromise(Effect.provide(ExecutionServiceTag, InvalidLayer))
+      ).rejects.toThrow(
+        "Invalid execution limits: concurrency.BrowserUse must be at least 1, rateLimits.gemini.refillPerSecond must be positive"
+      );
+    });
+  });
 });
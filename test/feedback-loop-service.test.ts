@@ -0,0 +1,245 @@
+import { writeFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Effect, Layer } from "effect";
+import { describe, expect, it } from "vitest";
+import type { ExecutionPlan, FeedbackLoop } from "../src/domain.js";
+import { BrowserServiceTag } from "../src/services/BrowserService.js";
+import { CoderServiceTag } from "../src/services/CoderService.js";
+import { ExecutionServiceLive } from "../src/services/ExecutionService.js";
+import {
+  FeedbackLoopServiceTag,
+  makeFeedbackLoopServiceLive,
+} from "../src/services/FeedbackLoopService.js";
+import { PlannerServiceTag } from "../src/services/PlannerService.js";
+import { ProjectManagerServiceLive } from "../src/services/ProjectManagerService.js";
+
+// "code, then browse to verify"
+const plan: ExecutionPlan = {
+  id: "plan-feedback",
+  nodes: {
+    "node-1": {
+      id: "node-1",
+      tool: {
+        tag: "CommandAgent",
+        name: "coder-1",
+        instruction: "Implement login",
+      },
+      dependencies: [],
+      status: "pending",
+    },
+    "node-2": {
+      id: "node-2",
+      tool: { tag: "BrowserUse", task: "Verify login" },
+      dependencies: ["node-1"],
+      status: "pending",
+    },
+  },
+  parallelBatches: [["node-1"], ["node-2"]],
+};
+
+const loop = (
+  retryStrategy: FeedbackLoop["retryStrategy"],
+  maxRetries = 2
+): FeedbackLoop => ({
+  tag: "FeedbackLoop",
+  validationErrors: [],
+  retryStrategy,
+  maxRetries,
+});
+
+// Coder that fails its first `failures` instructions with `error` and
+// answers the rest with `reply`, recording every one
+const setup = (
+  failures: number,
+  backoffBaseMs = 1,
+  error = "Type error in login.ts",
+  reply = (instruction: string) => `Executed: ${instruction}`
+) => {
+  const instructions: string[] = [];
+
+  const MockCoderService = Layer.succeed(CoderServiceTag, {
+    createSession: (name: string) => Effect.succeed(`Session: ${name}`),
+    execute: (_sessionId: string, instruction: string) => {
+      instructions.push(instruction);
+      return instructions.length <= failures
+        ? Effect.fail(new Error(error))
+        : Effect.sync(() => reply(instruction));
+    },
+  });
+
+  const MockBrowserService = Layer.succeed(BrowserServiceTag, {
+    navigate: (_url: string) => Effect.succeed(undefined),
+    act: (task: string) => Effect.succeed(`Browser acted: ${task}`),
+  });
+
+  const MockPlannerService = Layer.succeed(PlannerServiceTag, {
+    complete: () => Effect.fail(new Error("Not used")),
+  });
+
+  const ServicesLayer = Layer.mergeAll(
+    MockCoderService,
+    MockBrowserService,
+    MockPlannerService
+  );
+
+  const TestLayer = makeFeedbackLoopServiceLive({ backoffBaseMs }).pipe(
+    Layer.provide(ExecutionServiceLive),
+    Layer.provide(ProjectManagerServiceLive),
+    Layer.provide(ServicesLayer)
+  );
+
+  const run = (feedbackLoop: FeedbackLoop) =>
+    Effect.runPromise(
+      Effect.gen(function* (_) {
+        const service = yield* _(FeedbackLoopServiceTag);
+        return yield* _(service.run(plan, feedbackLoop));
+      }).pipe(Effect.provide(TestLayer))
+    );
+
+  return { instructions, run };
+};
+
+describe("FeedbackLoopService", () => {
+  it("should complete without feedback when validation passes", async () => {
+    const { instructions, run } = setup(0);
+
+    const outcome = await run(loop("immediate"));
+
+    expect(outcome.state).toBe("complete");
+    expect(outcome.attempts).toBe(1);
+    expect(outcome.transitions).toEqual([
+      "executing",
+      "validating",
+      "complete",
+    ]);
+    expect(instructions).toEqual(["Implement login"]);
+  });
+
+  it("should feed validation errors back to the coder and rerun failed nodes", async () => {
+    const { instructions, run } = setup(1);
+
+    const outcome = await run(loop("immediate"));
+
+    expect(outcome.state).toBe("complete");
+    expect(outcome.attempts).toBe(2);
+    expect(outcome.transitions).toEqual([
+      "executing",
+      "validating",
+      "planning",
+      "executing",
+      "validating",
+      "complete",
+    ]);
+    expect(instructions).toHaveLength(3);
+    expect(instructions[1]).toContain(
+      "- Node node-1 failed: Type error in login.ts"
+    );
+    expect(instructions[1]).toContain(
+      "- Node node-2 was skipped: Dependency node-1 did not complete"
+    );
+    expect(instructions[2]).toBe("Implement login");
+    expect(outcome.result.failedNodes).toEqual([]);
+    expect(outcome.result.completedNodes).toContain("node-2");
+    expect(outcome.loop.validationErrors).toEqual([]);
+  });
+
+  it("should not validate the coder's reply to the feedback", async () => {
+    // The reply echoes the error, which reads like a missing file path
+    const { run } = setup(1, 1, "Type error in src/login.ts");
+
+    const outcome = await run(loop("immediate"));
+
+    expect(outcome.state).toBe("complete");
+    expect(outcome.attempts).toBe(2);
+    expect(Object.keys(outcome.result.outputs).sort()).toEqual([
+      "node-1",
+      "node-2",
+    ]);
+  });
+
+  it("should rerun nodes whose outputs failed validation", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "feedback-loop-"));
+    const file = join(dir, "login.ts");
+    // The coder reports a file it only writes once told it is missing
+    const { instructions, run } = setup(
+      0,
+      1,
+      "Type error in login.ts",
+      (instruction) => {
+        if (instruction.startsWith("The previous attempt")) {
+          writeFileSync(file, "export {};\n");
+        }
+        return file;
+      }
+    );
+
+    try {
+      const outcome = await run(loop("immediate"));
+
+      expect(outcome.state).toBe("complete");
+      expect(outcome.attempts).toBe(2);
+      expect(instructions).toHaveLength(3);
+      expect(instructions[1]).toContain(
+        "- Node node-1 output failed validation"
+      );
+      expect(instructions[2]).toBe("Implement login");
+      expect(outcome.result.outputs["node-1"]).toBe(file);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should leave the follow-up instruction out of the result", async () => {
+    const { run } = setup(1);
+
+    const outcome = await run(loop("immediate"));
+
+    expect([...outcome.result.completedNodes].sort()).toEqual([
+      "node-1",
+      "node-2",
+    ]);
+    expect(Object.keys(outcome.result.nodes ?? {}).sort()).toEqual([
+      "node-1",
+      "node-2",
+    ]);
+  });
+
+  it("should give up once retries are exhausted", async () => {
+    const { run } = setup(Number.POSITIVE_INFINITY);
+
+    const outcome = await run(loop("immediate", 2));
+
+    expect(outcome.state).toBe("failed");
+    expect(outcome.attempts).toBe(3);
+    expect(outcome.transitions.at(-1)).toBe("failed");
+    expect(outcome.loop.validationErrors[0]).toContain("Node");
+    expect(outcome.pendingFeedback).toBeUndefined();
+  });
+
+  it("should hand the follow-up back instead of sending it with the manual strategy", async () => {
+    const { instructions, run } = setup(1);
+
+    const outcome = await run(loop("manual"));
+
+    expect(outcome.state).toBe("failed");
+    expect(outcome.attempts).toBe(1);
+    expect(instructions).toHaveLength(1);
+    expect(outcome.pendingFeedback).toMatchObject({
+      tag: "CommandAgent",
+      name: "coder-1",
+    });
+  });
+
+  it("should wait longer before every round with the backoff strategy", async () => {
+    const { run } = setup(Number.POSITIVE_INFINITY, 20);
+
+    const start = Date.now();
+    const outcome = await run(loop("backoff", 2));
+
+    // 20ms before the first round, 40ms before the second
+    expect(Date.now() - start).toBeGreaterThanOrEqual(55);
+    expect(outcome.attempts).toBe(3);
+  });
+});
@@ -6,9 +6,11 @@ import { Effect, Layer } from "effect";
 import type { AgentTool, WorkflowResult } from "../src/domain.js";
 import { BrowserServiceTag } from "../src/services/BrowserService.js";
 import { CoderServiceTag } from "../src/services/CoderService.js";
+import { PlannerServiceTag } from "../src/services/PlannerService.js";
 import {
   ProjectManagerService,
   ProjectManagerServiceLive,
+  type ToolDependencies,
 } from "../src/services/ProjectManagerService.js";
 
 describe("ProjectManagerService", () => {
@@ -24,9 +26,20 @@ describe("ProjectManagerService", () => {
     act: (task) => Effect.succeed(`Browser action: ${task}`),
   });
 
+  // Scripted planner: replies with whatever the test queued
+  let plannerResponse = "";
+  const plannerPrompts: string[] = [];
+  const mockPlannerService = Layer.succeed(PlannerServiceTag, {
+    complete: (_system, prompt) => {
+      plannerPrompts.push(prompt);
+      return Effect.succeed(plannerResponse);
+    },
+  });
+
   const testLayer = ProjectManagerServiceLive.pipe(
     Layer.provide(mockCoderService),
-    Layer.provide(mockBrowserService)
+    Layer.provide(mockBrowserService),
+    Layer.provide(mockPlannerService)
   );
 
   describe("delegate - ExecutionPlan creation", () => {
@@ -227,6 +240,178 @@ describe("ProjectManagerService", () => {
     });
   });
 
+  describe("delegateMany - multi-tool ExecutionPlan creation", () => {
+    const code: AgentTool = {
+      tag: "CommandAgent",
+      name: "coder",
+      instruction: "Implement login form",
+    };
+    const browse: AgentTool = {
+      tag: "BrowserUse",
+      task: "Verify login form renders",
+      url: "http://localhost:3000/login",
+    };
+    const docs: AgentTool = {
+      tag: "CommandAgent",
+      name: "writer",
+      instruction: "Document login form",
+    };
+
+    const delegateMany = (
+      tools: readonly AgentTool[],
+      dependencies?: ToolDependencies
+    ) =>
+      Effect.gen(function* () {
+        const service = yield* ProjectManagerService;
+        return yield* service.delegateMany(tools, dependencies);
+      }).pipe(Effect.provide(testLayer));
+
+    it("should batch independent tools together", async () => {
+      const plan = await Effect.runPromise(delegateMany([code, browse, docs]));
+
+      expect(Object.keys(plan.nodes)).toHaveLength(3);
+      expect(plan.parallelBatches).toHaveLength(1);
+      expect(plan.parallelBatches[0]).toEqual(Object.keys(plan.nodes));
+    });
+
+    it("should run dependent tools in later batches", async () => {
+      const plan = await Effect.runPromise(
+        delegateMany([code, browse, docs], { 1: [0] })
+      );
+
+      const [codeId, browseId, docsId] = Object.keys(plan.nodes);
+      expect(plan.nodes[codeId]?.tool).toEqual(code);
+      expect(plan.nodes[browseId]?.dependencies).toEqual([codeId]);
+      expect(plan.nodes[docsId]?.dependencies).toEqual([]);
+      expect(plan.parallelBatches).toEqual([[codeId, docsId], [browseId]]);
+    });
+
+    it("should layer chains and joins by their longest dependency", async () => {
+      const plan = await Effect.runPromise(
+        delegateMany([code, browse, docs], { 1: [0], 2: [0, 1] })
+      );
+
+      const [codeId, browseId, docsId] = Object.keys(plan.nodes);
+      expect(plan.nodes[docsId]?.dependencies).toEqual([codeId, browseId]);
+      expect(plan.parallelBatches).toEqual([[codeId], [browseId], [docsId]]);
+    });
+
+    it("should reject dependency cycles", async () => {
+      const error = await Effect.runPromise(
+        Effect.flip(delegateMany([code, browse, docs], { 0: [2], 2: [0] }))
+      );
+
+      expect(error.message).toContain("Dependency cycle");
+    });
+
+    it("should reject unknown tool indices", async () => {
+      const error = await Effect.runPromise(
+        Effect.flip(delegateMany([code, browse], { 1: [5] }))
+      );
+
+      expect(error.message).toBe("Unknown tool index: 5");
+    });
+
+    it("should reject an empty tool list", async () => {
+      const error = await Effect.runPromise(Effect.flip(delegateMany([])));
+
+      expect(error.message).toBe("No tools to delegate");
+    });
+  });
+
+  describe("decompose - LLM task decomposition", () => {
+    const decompose = (goal: string) =>
+      Effect.gen(function* () {
+        const service = yield* ProjectManagerService;
+        return yield* service.decompose(goal);
+      }).pipe(Effect.provide(testLayer));
+
+    it("should build a plan from the planner's tool calls", async () => {
+      plannerResponse = JSON.stringify({
+        tasks: [
+          {
+            tool: { tag: "CreateAgent", agentType: "coder", name: "coder" },
+          },
+          {
+            tool: {
+              tag: "CommandAgent",
+              name: "coder",
+              instruction: "Add a dark mode toggle",
+            },
+            dependsOn: [0],
+          },
+          {
+            tool: {
+              tag: "BrowserUse",
+              task: "Check the toggle switches themes",
+              url: "http://localhost:3000",
+            },
+            dependsOn: [1],
+          },
+        ],
+      });
+
+      const plan = await Effect.runPromise(decompose("Add dark mode"));
+
+      const [createId, commandId, browseId] = Object.keys(plan.nodes);
+      expect(plannerPrompts.at(-1)).toBe("Add dark mode");
+      expect(plan.nodes[createId]?.tool.tag).toBe("CreateAgent");
+      expect(plan.nodes[browseId]?.dependencies).toEqual([commandId]);
+      expect(plan.parallelBatches).toEqual([
+        [createId],
+        [commandId],
+        [browseId],
+      ]);
+    });
+
+    it("should accept JSON wrapped in a code fence", async () => {
+      plannerResponse = [
+        "```json",
+        '{"tasks": [{"tool": {"tag": "BrowserUse", "task": "Open docs"}}]}',
+        "```",
+      ].join("\n");
+
+      const plan = await Effect.runPromise(decompose("Read the docs"));
+
+      expect(Object.keys(plan.nodes)).toHaveLength(1);
+    });
+
+    it("should reject tool calls outside the AgentTool union", async () => {
+      plannerResponse = JSON.stringify({
+        tasks: [{ tool: { tag: "DeleteRepo", name: "oops" } }],
+      });
+
+      const error = await Effect.runPromise(Effect.flip(decompose("Clean up")));
+
+      expect(error.message).toContain("Invalid task plan: tasks.0.tool.tag");
+    });
+
+    it("should reject responses that are not JSON", async () => {
+      plannerResponse = "Sure! First, create an agent.";
+
+      const error = await Effect.runPromise(
+        Effect.flip(decompose("Build a site"))
+      );
+
+      expect(error.message).toBe("Planner response is not valid JSON");
+    });
+
+    it("should reject cyclic task dependencies", async () => {
+      plannerResponse = JSON.stringify({
+        tasks: [
+          { tool: { tag: "BrowserUse", task: "A" }, dependsOn: [1] },
+          { tool: { tag: "BrowserUse", task: "B" }, dependsOn: [0] },
+        ],
+      });
+
+      const error = await Effect.runPromise(
+        Effect.flip(decompose("Loop forever"))
+      );
+
+      expect(error.message).toContain("Dependency cycle");
+    });
+  });
+
   describe("validate - WorkflowResult validation", () => {
     let testDir: string;
 
@@ -496,6 +681,8 @@ describe("ProjectManagerService", () => {
             },
             parallelBatches: [["custom-node"]],
           }),
+        delegateMany: () => Effect.fail(new Error("Not supported")),
+        decompose: () => Effect.fail(new Error("Not supported")),
         validate: (result) => Effect.succeed(result.failedNodes.length === 0),
       });
 
@@ -0,0 +1,145 @@
+/**
+ * Workflow Approval Tests
+ * Tests for approval gates and their WebSocket binding
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WebSocketMessage } from "../../src/communication/ws";
+import {
+  APPROVAL_REQUESTED_EVENT,
+  APPROVAL_RESPONSE_TYPE,
+  ApprovalGate,
+  type ApprovalTransport,
+  bindApprovalGate,
+} from "../../src/workflow/approval";
+
+const input = {
+  planId: "plan_1",
+  stepId: "step_1",
+  stepName: "push",
+  question: "Push to main?",
+  context: { branch: "main" },
+};
+
+describe("ApprovalGate", () => {
+  let gate: ApprovalGate;
+
+  beforeEach(() => {
+    gate = new ApprovalGate();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should resolve a request with the decision", async () => {
+    const requested = vi.fn();
+    gate.onRequest(requested);
+
+    const result = gate.request(input);
+    const [request] = gate.getPendingRequests();
+
+    expect(requested).toHaveBeenCalledWith(request);
+    expect(gate.respond({ requestId: request.id, approved: false })).toBe(true);
+    await expect(result).resolves.toMatchObject({
+      requestId: request.id,
+      approved: false,
+    });
+    expect(gate.getPendingRequests()).toEqual([]);
+  });
+
+  it("should ignore decisions for unknown requests", () => {
+    expect(gate.respond({ requestId: "approval_x", approved: true })).toBe(
+      false
+    );
+  });
+
+  it("should expire requests that are not decided in time", async () => {
+    vi.useFakeTimers();
+
+    const result = gate.request(input, { expiresIn: 1000 });
+    const [request] = gate.getPendingRequests();
+    expect(request.expiresAt).toBe(request.requestedAt + 1000);
+
+    vi.advanceTimersByTime(1000);
+
+    await expect(result).rejects.toThrow("Approval request expired");
+    expect(gate.respond({ requestId: request.id, approved: true })).toBe(false);
+  });
+
+  it("should withdraw the request when the signal aborts", async () => {
+    const controller = new AbortController();
+    const result = gate.request(input, { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(result).rejects.toThrow("Approval request cancelled");
+    expect(gate.getPendingRequests()).toEqual([]);
+  });
+});
+
+describe("bindApprovalGate", () => {
+  const createTransport = () => {
+    const sent: WebSocketMessage[] = [];
+    let handler: ((message: WebSocketMessage, id: string) => void) | undefined;
+
+    const transport: ApprovalTransport = {
+      broadcast: (message) => {
+        sent.push(message);
+        return Promise.resolve(true);
+      },
+      onMessage: (messageHandler) => {
+        handler = messageHandler;
+      },
+    };
+
+    const receive = (message: Partial<WebSocketMessage>) =>
+      handler?.(
+        { id: "msg_1", type: "", timestamp: Date.now(), ...message },
+        "conn_1"
+      );
+
+    return { transport, sent, receive };
+  };
+
+  it("should broadcast requests and settle them from responses", async () => {
+    const gate = new ApprovalGate();
+    const { transport, sent, receive } = createTransport();
+    bindApprovalGate(gate, transport);
+
+    const result = gate.request(input);
+    const [request] = gate.getPendingRequests();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      type: "system_message",
+      payload: { event: APPROVAL_REQUESTED_EVENT, request },
+    });
+
+    receive({
+      type: APPROVAL_RESPONSE_TYPE,
+      payload: { requestId: request.id, approved: true, respondedBy: "ryan" },
+    });
+
+    await expect(result).resolves.toMatchObject({
+      approved: true,
+      respondedBy: "ryan",
+    });
+  });
+
+  it("should ignore malformed responses", () => {
+    const gate = new ApprovalGate();
+    const { transport, receive } = createTransport();
+    bindApprovalGate(gate, transport);
+
+    gate.request(input);
+    const [request] = gate.getPendingRequests();
+
+    receive({
+      type: APPROVAL_RESPONSE_TYPE,
+      payload: { requestId: request.id, approved: "yes" },
+    });
+
+    expect(gate.getPendingRequests()).toHaveLength(1);
+  });
+});
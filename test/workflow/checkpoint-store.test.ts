@@ -0,0 +1,313 @@
+/**
+ * Workflow Checkpoint Store Tests
+ * Conformance tests shared by every checkpoint store backend
+ */
+
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  type CheckpointStore,
+  FileSystemCheckpointStore,
+  InMemoryCheckpointStore,
+} from "../../src/workflow/checkpoint-store";
+import { addStepToPlan, createWorkflowPlan } from "../../src/workflow/plan";
+import {
+  createCheckpoint,
+  RecoveryManager,
+  type WorkflowCheckpoint,
+} from "../../src/workflow/recovery";
+import { SqliteCheckpointStore } from "../../src/workflow/sqlite-checkpoint-store";
+
+type StoreFactory = {
+  name: string;
+  /** Create a store; calling it again with the same directory reopens it */
+  create(dir: string): CheckpointStore;
+  durable: boolean;
+};
+
+const opened: SqliteCheckpointStore[] = [];
+
+const factories: StoreFactory[] = [
+  {
+    name: "InMemoryCheckpointStore",
+    create: () => new InMemoryCheckpointStore(),
+    durable: false,
+  },
+  {
+    name: "FileSystemCheckpointStore",
+    create: (dir) =>
+      new FileSystemCheckpointStore(join(dir, "checkpoints.jsonl")),
+    durable: true,
+  },
+  {
+    name: "SqliteCheckpointStore",
+    create: (dir) => {
+      const store = new SqliteCheckpointStore(join(dir, "checkpoints.db"));
+      opened.push(store);
+      return store;
+    },
+    durable: true,
+  },
+];
+
+function checkpointAt(
+  planId: string,
+  timestamp: number,
+  metadata: Record<string, unknown> = {}
+): WorkflowCheckpoint {
+  const plan = createWorkflowPlan({ name: "Test" });
+  plan.id = planId;
+  const step = addStepToPlan(plan, { name: "Step 1", type: "action" });
+  step.status = "completed";
+  step.output = { value: timestamp };
+
+  return { ...createCheckpoint(plan, [step], metadata), timestamp };
+}
+
+describe.each(factories)("$name", (factory) => {
+  let dir: string;
+  let store: CheckpointStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "checkpoint-store-"));
+    store = factory.create(dir);
+  });
+
+  afterEach(async () => {
+    for (const sqlite of opened.splice(0)) {
+      await sqlite.close();
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save and load a checkpoint", async () => {
+    const checkpoint = checkpointAt("plan_a", 1000);
+
+    await store.save(checkpoint);
+
+    expect(await store.load(checkpoint.id)).toEqual(checkpoint);
+  });
+
+  it("should return null for unknown checkpoints", async () => {
+    expect(await store.load("ckpt_missing")).toBeNull();
+  });
+
+  it("should overwrite a checkpoint saved with the same ID", async () => {
+    const checkpoint = checkpointAt("plan_a", 1000, { version: 1 });
+    await store.save(checkpoint);
+    await store.save({ ...checkpoint, metadata: { version: 2 } });
+
+    const stored = await store.list();
+
+    expect(stored).toHaveLength(1);
+    expect(stored[0].metadata.version).toBe(2);
+  });
+
+  it("should list checkpoints for a plan sorted by timestamp", async () => {
+    const later = checkpointAt("plan_a", 3000);
+    const earlier = checkpointAt("plan_a", 1000);
+    const other = checkpointAt("plan_b", 2000);
+
+    await store.save(later);
+    await store.save(earlier);
+    await store.save(other);
+
+    expect((await store.list("plan_a")).map((c) => c.id)).toEqual([
+      earlier.id,
+      later.id,
+    ]);
+    expect((await store.list()).map((c) => c.id)).toEqual([
+      earlier.id,
+      other.id,
+      later.id,
+    ]);
+  });
+
+  it("should keep write order for checkpoints sharing a timestamp", async () => {
+    const first = checkpointAt("plan_a", 1000);
+    const second = checkpointAt("plan_a", 1000);
+
+    await store.save(first);
+    await store.save(second);
+
+    expect((await store.list("plan_a")).map((c) => c.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+  });
+
+  it("should delete checkpoints", async () => {
+    const checkpoint = checkpointAt("plan_a", 1000);
+    await store.save(checkpoint);
+
+    expect(await store.delete(checkpoint.id)).toBe(true);
+    expect(await store.delete(checkpoint.id)).toBe(false);
+    expect(await store.load(checkpoint.id)).toBeNull();
+    expect(await store.list("plan_a")).toEqual([]);
+  });
+
+  it("should not be affected by mutations after save", async () => {
+    const checkpoint = checkpointAt("plan_a", 1000);
+    await store.save(checkpoint);
+
+    checkpoint.completedSteps.push("step_mutated");
+
+    expect((await store.load(checkpoint.id))?.completedSteps).not.toContain(
+      "step_mutated"
+    );
+  });
+
+  it.runIf(factory.durable)(
+    "should keep checkpoints across store instances",
+    async () => {
+      const checkpoint = checkpointAt("plan_a", 1000);
+      await store.save(checkpoint);
+
+      const reopened = factory.create(dir);
+
+      expect(await reopened.load(checkpoint.id)).toEqual(checkpoint);
+    }
+  );
+
+  describe("with RecoveryManager", () => {
+    it("should clean up old checkpoints", async () => {
+      const manager = new RecoveryManager(store);
+      const now = Date.now();
+      const old = checkpointAt("plan_a", now - 10_000);
+      const recent = checkpointAt("plan_a", now);
+      await store.save(old);
+      await store.save(recent);
+
+      await manager.cleanupOldCheckpoints("plan_a", { maxAge: 5000 });
+
+      expect((await store.list("plan_a")).map((c) => c.id)).toEqual([
+        recent.id,
+      ]);
+    });
+
+    it("should keep only the most recent checkpoints", async () => {
+      const manager = new RecoveryManager(store);
+      const now = Date.now();
+      const checkpoints = [3, 2, 1].map((age) =>
+        checkpointAt("plan_a", now - age * 1000)
+      );
+      for (const checkpoint of checkpoints) {
+        await store.save(checkpoint);
+      }
+
+      await manager.cleanupOldCheckpoints("plan_a", { keep: 2 });
+
+      expect((await store.list("plan_a")).map((c) => c.id)).toEqual([
+        checkpoints[1].id,
+        checkpoints[2].id,
+      ]);
+    });
+
+    it("should report checkpoint statistics", async () => {
+      const manager = new RecoveryManager(store);
+      const now = Date.now();
+      await store.save(checkpointAt("plan_a", now - 2000));
+      await store.save(checkpointAt("plan_a", now - 1000));
+      await store.save(checkpointAt("plan_b", now));
+
+      const stats = await manager.getCheckpointStats("plan_a");
+
+      expect(stats.totalCheckpoints).toBe(2);
+      expect(stats.oldestCheckpoint).toBe(now - 2000);
+      expect(stats.newestCheckpoint).toBe(now - 1000);
+      expect(stats.averageAge).toBeGreaterThanOrEqual(1500);
+    });
+
+    it("should return the latest checkpoint", async () => {
+      const manager = new RecoveryManager(store);
+      const latest = checkpointAt("plan_a", 2000);
+      await store.save(latest);
+      await store.save(checkpointAt("plan_a", 1000));
+
+      expect((await manager.getLatestCheckpoint("plan_a"))?.id).toBe(latest.id);
+    });
+  });
+});
+
+describe("FileSystemCheckpointStore log", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "checkpoint-log-"));
+    path = join(dir, "checkpoints.jsonl");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should ignore a torn final line", async () => {
+    const store = new FileSystemCheckpointStore(path);
+    const checkpoint = checkpointAt("plan_a", 1000);
+    await store.save(checkpoint);
+    await appendFile(path, '{"op":"save","checkpoint":{"id":', "utf-8");
+
+    expect(await store.list()).toEqual([checkpoint]);
+  });
+
+  it("should reject corruption before the final line", async () => {
+    const store = new FileSystemCheckpointStore(path);
+    await appendFile(path, "not json\n", "utf-8");
+    await store.save(checkpointAt("plan_a", 1000));
+
+    await expect(store.list()).rejects.toThrow("Corrupt checkpoint log");
+  });
+
+  it("should compact the log to live checkpoints", async () => {
+    const store = new FileSystemCheckpointStore(path);
+    const kept = checkpointAt("plan_a", 1000);
+    const removed = checkpointAt("plan_a", 2000);
+    await store.save(kept);
+    await store.save(removed);
+    await store.delete(removed.id);
+
+    await store.compact();
+
+    const lines = (await readFile(path, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+    expect(await store.list()).toEqual([kept]);
+  });
+
+  it("should keep checkpoints saved while the log is compacted", async () => {
+    const store = new FileSystemCheckpointStore(path);
+    const other = new FileSystemCheckpointStore(path);
+    const removed = checkpointAt("plan_a", 1000);
+    const saved = [2000, 3000, 4000].map((timestamp) =>
+      checkpointAt("plan_a", timestamp)
+    );
+    await store.save(removed);
+    await store.delete(removed.id);
+
+    await Promise.all([
+      store.compact(),
+      store.save(saved[0] as WorkflowCheckpoint),
+      other.save(saved[1] as WorkflowCheckpoint),
+      store.compact(),
+      other.save(saved[2] as WorkflowCheckpoint),
+    ]);
+
+    expect(await store.list()).toEqual(saved);
+  });
+
+  it("should compact the log when old checkpoints are cleaned up", async () => {
+    const store = new FileSystemCheckpointStore(path);
+    const now = Date.now();
+    await store.save(checkpointAt("plan_a", now - 10_000));
+    await store.save(checkpointAt("plan_a", now));
+
+    await new RecoveryManager(store).cleanupOldCheckpoints("plan_a", {
+      maxAge: 5000,
+    });
+
+    const lines = (await readFile(path, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(1);
+  });
+});
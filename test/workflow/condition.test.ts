@@ -0,0 +1,107 @@
+/**
+ * Workflow Condition Tests
+ * Tests for step condition parsing, evaluation and branch selection
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  type ConditionScope,
+  evaluateCondition,
+  parseCondition,
+  selectBranch,
+} from "../../src/workflow/condition";
+
+const scope: ConditionScope = {
+  steps: {
+    code: { files: ["a.ts", "b.ts"], summary: "done", score: 0.8 },
+  },
+  context: { verify: true, env: "staging" },
+};
+
+describe("evaluateCondition", () => {
+  it("should compare upstream outputs and context values", () => {
+    expect(evaluateCondition("steps.code.output.files.length > 0", scope)).toBe(
+      true
+    );
+    expect(evaluateCondition("context.env == 'staging'", scope)).toBe(true);
+    expect(evaluateCondition('context.env != "staging"', scope)).toBe(false);
+    expect(evaluateCondition("steps.code.output.score >= 0.9", scope)).toBe(
+      false
+    );
+  });
+
+  it("should combine expressions with boolean operators", () => {
+    expect(
+      evaluateCondition(
+        "steps.code.output.files.length > 0 && context.verify == true",
+        scope
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition("!context.verify || (context.env == 'prod')", scope)
+    ).toBe(false);
+  });
+
+  it("should read bracketed properties and treat missing ones as undefined", () => {
+    expect(
+      evaluateCondition("steps['code'].output.files[1] == 'b.ts'", scope)
+    ).toBe(true);
+    expect(evaluateCondition("context.missing.value", scope)).toBe(false);
+  });
+
+  it("should reject references to steps that are not dependencies", () => {
+    expect(() => evaluateCondition("steps.other.output", scope)).toThrow(
+      "Unresolved condition reference"
+    );
+  });
+});
+
+describe("parseCondition", () => {
+  it("should reject malformed expressions", () => {
+    expect(() => parseCondition("context.verify &&")).toThrow(
+      "Invalid condition expression"
+    );
+    expect(() => parseCondition("process.exit(1)")).toThrow(
+      "Unknown condition reference"
+    );
+    expect(() => parseCondition("context.a = 1")).toThrow(
+      "Invalid condition expression"
+    );
+  });
+});
+
+describe("selectBranch", () => {
+  it("should select the first matching branch", () => {
+    const branch = selectBranch(
+      [
+        { name: "prod", when: "context.env == 'prod'", steps: [] },
+        { name: "staging", when: "context.env == 'staging'", steps: [] },
+        { name: "fallback", steps: [] },
+      ],
+      scope
+    );
+
+    expect(branch?.name).toBe("staging");
+  });
+
+  it("should fall back to a branch without a condition", () => {
+    const branch = selectBranch(
+      [
+        { name: "prod", when: "context.env == 'prod'", steps: [] },
+        { name: "fallback", steps: [] },
+      ],
+      scope
+    );
+
+    expect(branch?.name).toBe("fallback");
+  });
+
+  it("should select nothing when no branch matches", () => {
+    expect(
+      selectBranch(
+        [{ name: "prod", when: "context.verify == false", steps: [] }],
+        scope
+      )
+    ).toBeUndefined();
+  });
+});
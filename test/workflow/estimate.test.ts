@@ -0,0 +1,212 @@
+/**
+ * Workflow Estimate Tests
+ * Tests for step duration estimates, critical paths and completion times
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  DurationEstimator,
+  estimatePlan,
+  type PlanEstimate,
+} from "../../src/workflow/estimate";
+import {
+  createExecutionRecord,
+  finishExecutionRecord,
+  InMemoryExecutionHistoryStore,
+} from "../../src/workflow/history";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+import { WorkflowRunner } from "../../src/workflow/runner";
+import type { WorkflowExecutionRecord } from "../../src/workflow/schema";
+
+// build -> (unit, e2e) -> deploy
+const diamond = () =>
+  createPlanFromDefinition({
+    name: "Release",
+    steps: [
+      { name: "build", type: "action" },
+      { name: "unit", type: "action", dependsOn: ["build"] },
+      { name: "e2e", type: "browser", dependsOn: ["build"] },
+      { name: "deploy", type: "action", dependsOn: ["unit", "e2e"] },
+    ],
+  });
+
+const durations = (samples: Record<string, number>) => {
+  const estimator = new DurationEstimator();
+  for (const [name, duration] of Object.entries(samples)) {
+    estimator.record({ name, type: "action" }, duration);
+  }
+  return estimator;
+};
+
+describe("DurationEstimator", () => {
+  it("should average durations by step name, falling back to step type", () => {
+    const estimator = new DurationEstimator();
+    estimator.record({ name: "build", type: "action" }, 100);
+    estimator.record({ name: "build", type: "action" }, 300);
+    estimator.record({ name: "lint", type: "action" }, 50);
+
+    expect(estimator.estimate({ name: "build", type: "action" })).toBe(200);
+    expect(estimator.estimate({ name: "format", type: "action" })).toBe(150);
+    expect(estimator.estimate({ name: "crawl", type: "browser" })).toBe(
+      undefined
+    );
+  });
+
+  it("should only learn from steps a recorded run executed itself", () => {
+    const run: WorkflowExecutionRecord = {
+      executionId: "exec_1",
+      planId: "plan_1",
+      planName: "Release",
+      status: "completed",
+      context: {},
+      startedAt: 1000,
+      steps: [
+        {
+          stepId: "step_1",
+          name: "build",
+          type: "action",
+          status: "completed",
+          startTime: 500,
+          endTime: 900,
+          duration: 400,
+          attempts: 1,
+        },
+        {
+          stepId: "step_2",
+          name: "test",
+          type: "action",
+          status: "completed",
+          startTime: 1000,
+          endTime: 1250,
+          duration: 250,
+          attempts: 1,
+        },
+      ],
+    };
+    const estimator = new DurationEstimator();
+
+    estimator.recordExecutions([run]);
+
+    expect(estimator.estimate({ name: "build", type: "action" })).toBe(250);
+    expect(estimator.estimate({ name: "test", type: "action" })).toBe(250);
+  });
+});
+
+describe("estimatePlan", () => {
+  it("should follow the longest chain through the dependency graph", () => {
+    const plan = diamond();
+    const [build, , e2e, deploy] = plan.steps;
+
+    const estimate = estimatePlan(
+      plan,
+      durations({ build: 100, unit: 50, e2e: 400, deploy: 30 }),
+      10_000
+    );
+
+    expect(estimate).toEqual({
+      criticalPath: [build.id, e2e.id, deploy.id],
+      expectedDuration: 530,
+      remainingDuration: 530,
+      estimatedCompletion: 10_530,
+      unestimatedSteps: [],
+    });
+  });
+
+  it("should count finished steps as done and running steps as partly done", () => {
+    const plan = diamond();
+    const [build, unit, e2e, deploy] = plan.steps;
+    Object.assign(build, { status: "completed", startTime: 0, endTime: 120 });
+    Object.assign(unit, { status: "completed", startTime: 120, endTime: 170 });
+    Object.assign(e2e, { status: "running", startTime: 120 });
+
+    const estimate = estimatePlan(
+      plan,
+      durations({ build: 100, unit: 50, e2e: 400, deploy: 30 }),
+      220
+    );
+
+    expect(estimate.criticalPath).toEqual([e2e.id, deploy.id]);
+    expect(estimate.expectedDuration).toBe(550);
+    expect(estimate.remainingDuration).toBe(330);
+    expect(estimate.estimatedCompletion).toBe(550);
+  });
+
+  it("should list unfinished steps without duration data", () => {
+    const plan = diamond();
+    const e2e = plan.steps[2];
+
+    const estimate = estimatePlan(
+      plan,
+      durations({ build: 100, unit: 50, deploy: 30 }),
+      0
+    );
+
+    expect(estimate.unestimatedSteps).toEqual([e2e.id]);
+    expect(estimate.remainingDuration).toBe(180);
+  });
+});
+
+describe("WorkflowRunner estimates", () => {
+  it("should learn durations from completed steps for later runs", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler(
+      "action",
+      () => new Promise((resolve) => setTimeout(resolve, 20))
+    );
+    runner.registerHandler("browser", () => Promise.resolve());
+
+    const first = diamond();
+    await runner.executeGraph(first, {
+      planId: first.id,
+      stepId: "",
+      data: {},
+    });
+
+    const second = diamond();
+    const progress = runner.getPlanProgress(second);
+
+    expect(progress.estimate?.unestimatedSteps).toEqual([]);
+    expect(progress.estimate?.remainingDuration).toBeGreaterThan(0);
+    expect(progress.estimate?.criticalPath).toHaveLength(3);
+  });
+
+  it("should learn durations from the recorded runs of a plan", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const plan = diamond();
+    const run = createExecutionRecord(plan);
+    for (const step of plan.steps) {
+      step.status = "completed";
+      step.startTime = run.startedAt;
+      step.endTime = run.startedAt + 100;
+    }
+    await history.save(finishExecutionRecord(run, plan));
+    for (const step of plan.steps) {
+      step.status = "pending";
+      step.startTime = undefined;
+      step.endTime = undefined;
+    }
+
+    const runner = new WorkflowRunner({ history });
+    let estimate: PlanEstimate | undefined;
+    runner.registerHandler("action", () => {
+      estimate ??= runner.getPlanProgress(plan).estimate;
+      return Promise.resolve();
+    });
+    runner.registerHandler("browser", () => Promise.resolve());
+
+    await runner.executeGraph(plan, { planId: plan.id, stepId: "", data: {} });
+
+    expect(estimate?.unestimatedSteps).toEqual([]);
+    expect(estimate?.remainingDuration).toBeGreaterThanOrEqual(200);
+  });
+
+  it("should leave the estimate out of progress for unresolvable plans", () => {
+    const plan = diamond();
+    plan.steps[3].dependencies.push("missing");
+
+    const progress = new WorkflowRunner().getPlanProgress(plan);
+
+    expect(progress.total).toBe(4);
+    expect(progress.estimate).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Workflow Event Tests
+ * Tests for forwarding runner updates to WebSocket clients
+ */
+
+import { describe, expect, it } from "vitest";
+import type { WebSocketMessage } from "../../src/communication/ws";
+import {
+  forwardWorkflowUpdates,
+  WORKFLOW_UPDATE_EVENT,
+  type WorkflowUpdateTransport,
+} from "../../src/workflow/events";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+import { WorkflowRunner } from "../../src/workflow/runner";
+
+describe("forwardWorkflowUpdates", () => {
+  const createTransport = () => {
+    const sent: WebSocketMessage[] = [];
+    const transport: WorkflowUpdateTransport = {
+      broadcast: (message) => {
+        sent.push(message);
+        return Promise.resolve(true);
+      },
+    };
+
+    return { transport, sent };
+  };
+
+  const plan = () =>
+    createPlanFromDefinition({
+      name: "Forwarded",
+      steps: [{ name: "build", type: "action" }],
+    });
+
+  it("should broadcast runner updates as system messages", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler("action", () => Promise.resolve("built"));
+    const { transport, sent } = createTransport();
+    forwardWorkflowUpdates(runner, transport);
+
+    const forwarded = plan();
+    await runner.executeGraph(forwarded, {
+      planId: forwarded.id,
+      stepId: "",
+      data: {},
+      executionId: "exec_forwarded",
+    });
+
+    expect(sent).toHaveLength(4);
+    expect(sent[2]).toMatchObject({
+      type: "system_message",
+      payload: {
+        event: WORKFLOW_UPDATE_EVENT,
+        update: {
+          type: "step_completed",
+          executionId: "exec_forwarded",
+          stepId: forwarded.steps[0].id,
+          output: "built",
+        },
+      },
+    });
+  });
+
+  it("should stop forwarding once unsubscribed", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler("action", () => Promise.resolve("built"));
+    const { transport, sent } = createTransport();
+    const stop = forwardWorkflowUpdates(runner, transport);
+
+    stop();
+    const forwarded = plan();
+    await runner.executeGraph(forwarded, {
+      planId: forwarded.id,
+      stepId: "",
+      data: {},
+    });
+
+    expect(sent).toEqual([]);
+  });
+});
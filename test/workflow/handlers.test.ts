@@ -0,0 +1,156 @@
+/**
+ * Workflow Handler Tests
+ * Tests for the Big 3 coder, browser and checkpoint step handlers
+ */
+
+import { Effect } from "effect";
+import { describe, expect, it, vi } from "vitest";
+import type { BrowserService } from "../../src/services/BrowserService";
+import type { CoderService } from "../../src/services/CoderService";
+import { InMemoryCheckpointStore } from "../../src/workflow/checkpoint-store";
+import { registerBig3Handlers } from "../../src/workflow/handlers";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+import { RecoveryManager } from "../../src/workflow/recovery";
+import { WorkflowRunner } from "../../src/workflow/runner";
+
+function createServices() {
+  const calls: string[] = [];
+
+  const coder: CoderService = {
+    createSession: (name) => Effect.succeed(`Session: ${name}`),
+    execute: (session, instruction) =>
+      Effect.sync(() => {
+        calls.push(`coder:${session}:${instruction}`);
+        return `Executed: ${instruction}`;
+      }),
+  };
+
+  const browser: BrowserService = {
+    navigate: (url) =>
+      Effect.sync(() => {
+        calls.push(`navigate:${url}`);
+      }),
+    act: (task) =>
+      Effect.sync(() => {
+        calls.push(`act:${task}`);
+        return `Browser acted: ${task}`;
+      }),
+  };
+
+  return { coder, browser, calls };
+}
+
+describe("Big 3 workflow handlers", () => {
+  it("should dispatch coder, browser and checkpoint steps", async () => {
+    const { coder, browser, calls } = createServices();
+    const store = new InMemoryCheckpointStore();
+    const recovery = new RecoveryManager(store);
+    const runner = new WorkflowRunner();
+
+    const plan = createPlanFromDefinition({
+      name: "Big 3",
+      steps: [
+        {
+          name: "code",
+          type: "coder",
+          input: { instruction: "Add a button" },
+        },
+        {
+          name: "verify",
+          type: "browser",
+          dependsOn: ["code"],
+          input: {
+            url: "http://localhost:3000",
+            task: "Verify {{steps.code.output}}",
+          },
+        },
+        { name: "save", type: "checkpoint", dependsOn: ["verify"] },
+      ],
+    });
+
+    registerBig3Handlers(runner, {
+      coder,
+      browser,
+      recovery,
+      getPlan: () => plan,
+    });
+
+    await runner.executeSequentially(plan, {
+      planId: plan.id,
+      stepId: "",
+      data: {},
+    });
+
+    expect(calls).toEqual([
+      "coder:default-session:Add a button",
+      "navigate:http://localhost:3000",
+      "act:Verify Executed: Add a button",
+    ]);
+    expect(plan.steps[2].output).toMatchObject({ checkpointed: true });
+    expect(await store.list(plan.id)).toHaveLength(1);
+  });
+
+  it("should fail coder steps without an instruction", async () => {
+    const { coder, browser } = createServices();
+    const runner = new WorkflowRunner();
+    registerBig3Handlers(runner, { coder, browser });
+
+    const plan = createPlanFromDefinition({
+      name: "Missing input",
+      steps: [{ name: "code", type: "coder" }],
+    });
+
+    await expect(
+      runner.executeSequentially(plan, {
+        planId: plan.id,
+        stepId: "",
+        data: {},
+      })
+    ).rejects.toThrow("Step input 'instruction' must be a non-empty string");
+  });
+
+  it("should interrupt agent calls when the step is aborted", async () => {
+    const interrupted: string[] = [];
+    const hang = (agent: string) =>
+      Effect.never.pipe(
+        Effect.onInterrupt(() => Effect.sync(() => interrupted.push(agent)))
+      );
+    const runner = new WorkflowRunner();
+    registerBig3Handlers(runner, {
+      coder: { ...createServices().coder, execute: () => hang("coder") },
+      browser: { ...createServices().browser, act: () => hang("browser") },
+    });
+
+    const plan = createPlanFromDefinition({
+      name: "Hanging",
+      steps: [
+        {
+          name: "code",
+          type: "coder",
+          timeout: 20,
+          retry: { maxAttempts: 1 },
+          input: { instruction: "Add a button" },
+        },
+        {
+          name: "verify",
+          type: "browser",
+          timeout: 20,
+          retry: { maxAttempts: 1 },
+          input: { task: "Verify the button" },
+        },
+      ],
+    });
+
+    await expect(
+      runner.executeGraph(
+        plan,
+        { planId: plan.id, stepId: "", data: {} },
+        { continueOnError: true }
+      )
+    ).rejects.toThrow("Graph execution errors");
+
+    await vi.waitFor(() =>
+      expect(interrupted.sort()).toEqual(["browser", "coder"])
+    );
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Workflow Execution History Tests
+ * Tests for run records, history backends and failure summaries
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WorkflowEngine } from "../../src/workflow/engine";
+import {
+  createExecutionRecord,
+  type ExecutionHistoryStore,
+  FileSystemExecutionHistoryStore,
+  finishExecutionRecord,
+  InMemoryExecutionHistoryStore,
+  summarizeStepFailures,
+} from "../../src/workflow/history";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+import { WorkflowRunner } from "../../src/workflow/runner";
+import type { WorkflowExecutionRecord } from "../../src/workflow/schema";
+import { InMemoryWorkflowPlanStore } from "../../src/workflow/store";
+
+const definition = {
+  name: "Pipeline",
+  steps: [
+    { name: "lint", type: "action" as const },
+    { name: "test", type: "action" as const, dependsOn: ["lint"] },
+  ],
+};
+
+function recordRun(
+  planId: string,
+  startedAt: number,
+  statuses: Record<string, "completed" | "failed">
+): WorkflowExecutionRecord {
+  return {
+    executionId: `exec_${startedAt}`,
+    planId,
+    planName: "Pipeline",
+    status: Object.values(statuses).includes("failed") ? "failed" : "completed",
+    context: {},
+    startedAt,
+    steps: Object.entries(statuses).map(([name, status]) => ({
+      stepId: `step_${name}`,
+      name,
+      type: "action",
+      status,
+      error:
+        status === "failed"
+          ? { code: "STEP_EXECUTION_ERROR", message: `${name} ${startedAt}` }
+          : undefined,
+      attempts: 1,
+    })),
+  };
+}
+
+const backends: Array<{
+  name: string;
+  create: () => Promise<{
+    history: ExecutionHistoryStore;
+    cleanup: () => Promise<void>;
+  }>;
+}> = [
+  {
+    name: "InMemoryExecutionHistoryStore",
+    create: async () => ({
+      history: new InMemoryExecutionHistoryStore(),
+      cleanup: () => Promise.resolve(),
+    }),
+  },
+  {
+    name: "FileSystemExecutionHistoryStore",
+    create: async () => {
+      const dir = await mkdtemp(join(tmpdir(), "history-store-"));
+      return {
+        history: new FileSystemExecutionHistoryStore(dir),
+        cleanup: () => rm(dir, { recursive: true, force: true }),
+      };
+    },
+  },
+];
+
+for (const backend of backends) {
+  describe(backend.name, () => {
+    let history: ExecutionHistoryStore;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      ({ history, cleanup } = await backend.create());
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it("should save and load a run", async () => {
+      const run = recordRun("plan_a", 1000, { lint: "failed" });
+
+      await history.save(run);
+
+      expect(await history.load(run.executionId)).toEqual(run);
+      expect(await history.load("exec_missing")).toBeNull();
+    });
+
+    it("should list the latest runs of a plan, newest first", async () => {
+      await history.save(recordRun("plan_a", 1000, { lint: "completed" }));
+      await history.save(recordRun("plan_b", 2000, { lint: "completed" }));
+      await history.save(recordRun("plan_a", 3000, { lint: "failed" }));
+      await history.save(recordRun("plan_a", 4000, { lint: "completed" }));
+
+      const latest = await history.list({ planId: "plan_a", limit: 2 });
+      expect(latest.map((run) => run.startedAt)).toEqual([4000, 3000]);
+
+      const failed = await history.list({ status: "failed" });
+      expect(failed.map((run) => run.executionId)).toEqual(["exec_3000"]);
+    });
+
+    it("should delete runs", async () => {
+      const run = recordRun("plan_a", 1000, { lint: "completed" });
+      await history.save(run);
+
+      expect(await history.delete(run.executionId)).toBe(true);
+      expect(await history.delete(run.executionId)).toBe(false);
+      expect(await history.list()).toEqual([]);
+    });
+  });
+}
+
+describe("FileSystemExecutionHistoryStore", () => {
+  it("should reject execution IDs that escape the directory", async () => {
+    const history = new FileSystemExecutionHistoryStore(tmpdir());
+
+    await expect(history.load("../outside")).rejects.toThrow(
+      "Invalid workflow execution ID"
+    );
+  });
+});
+
+describe("summarizeStepFailures", () => {
+  it("should rank steps by failures and keep the latest error", () => {
+    const summary = summarizeStepFailures([
+      recordRun("plan_a", 3000, { lint: "completed", test: "failed" }),
+      recordRun("plan_a", 1000, { lint: "failed", test: "failed" }),
+      recordRun("plan_a", 2000, { lint: "completed", test: "completed" }),
+    ]);
+
+    expect(summary).toEqual([
+      {
+        stepName: "test",
+        runs: 3,
+        failures: 2,
+        failureRate: 2 / 3,
+        lastError: { code: "STEP_EXECUTION_ERROR", message: "test 3000" },
+      },
+      {
+        stepName: "lint",
+        runs: 3,
+        failures: 1,
+        failureRate: 1 / 3,
+        lastError: { code: "STEP_EXECUTION_ERROR", message: "lint 1000" },
+      },
+    ]);
+  });
+});
+
+describe("finishExecutionRecord", () => {
+  it("should snapshot the final step states of the run", () => {
+    const plan = createPlanFromDefinition(definition);
+    const run = createExecutionRecord(plan, { context: { branch: "main" } });
+
+    plan.steps[0].status = "completed";
+    plan.steps[0].output = "lint ok";
+    plan.steps[0].startTime = 100;
+    plan.steps[0].endTime = 150;
+
+    const finished = finishExecutionRecord(run, plan);
+
+    expect(run.steps[0].status).toBe("pending");
+    expect(finished.status).toBe("completed");
+    expect(finished.context).toEqual({ branch: "main" });
+    expect(finished.steps[0]).toMatchObject({
+      name: "lint",
+      status: "completed",
+      output: "lint ok",
+      duration: 50,
+    });
+  });
+});
+
+describe("execution recording", () => {
+  it("should record every engine run of a plan", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const runner = new WorkflowRunner();
+    let failLint = true;
+    runner.registerHandler("action", (step) => {
+      if (step.name === "lint" && failLint) {
+        throw new Error("lint failed");
+      }
+      return Promise.resolve(`${step.name} ok`);
+    });
+    const engine = new WorkflowEngine(
+      new InMemoryWorkflowPlanStore(),
+      runner,
+      history
+    );
+    const plan = createPlanFromDefinition(definition);
+    await engine.savePlan(plan);
+
+    await engine.executePlan(plan.id);
+    failLint = false;
+    await engine.executePlan(plan.id);
+
+    const runs = await engine.listExecutions({ planId: plan.id });
+    const status = await engine.getExecutionStatus(plan.id);
+
+    expect(runs.map((run) => run.status)).toEqual(["completed", "failed"]);
+    expect(runs[0].executionId).toBe(status?.executionId);
+    expect(runs[1].steps.map((step) => step.status)).toEqual([
+      "failed",
+      "failed",
+    ]);
+    expect(summarizeStepFailures(runs)[0]).toMatchObject({
+      stepName: "lint",
+      failures: 1,
+    });
+  });
+
+  it("should report the status of runs recorded by another engine", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const store = new InMemoryWorkflowPlanStore();
+    const runner = new WorkflowRunner();
+    runner.registerHandler("action", async (step) => `${step.name} ok`);
+    const plan = createPlanFromDefinition(definition);
+    await store.save(plan);
+
+    await new WorkflowEngine(store, runner, history).executePlan(plan.id);
+    const status = await new WorkflowEngine(
+      store,
+      new WorkflowRunner(),
+      history
+    ).getExecutionStatus(plan.id);
+    const [run] = await history.list({ planId: plan.id });
+
+    expect(status).toMatchObject({
+      executionId: run.executionId,
+      status: "completed",
+      completedAt: run.completedAt,
+    });
+  });
+
+  it("should report updates under the ID of the recorded run", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const runner = new WorkflowRunner({ history });
+    const executionIds = new Set<string>();
+    runner.onUpdate((update) => executionIds.add(update.executionId));
+    runner.registerHandler("action", async (step) => `${step.name} ok`);
+    const plan = createPlanFromDefinition(definition);
+
+    await runner.executeGraph(plan, { planId: plan.id, stepId: "", data: {} });
+    const [run] = await history.list({ planId: plan.id });
+
+    expect([...executionIds]).toEqual([run.executionId]);
+  });
+
+  it("should record outputs that cannot be cloned as JSON", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const runner = new WorkflowRunner({ history });
+    const updates: string[] = [];
+    runner.onUpdate((update) => updates.push(update.type));
+    runner.registerHandler("action", (step) =>
+      Promise.resolve({ summary: `${step.name} ok`, close: vi.fn() })
+    );
+    const plan = createPlanFromDefinition(definition);
+
+    await runner.executeGraph(plan, { planId: plan.id, stepId: "", data: {} });
+    const [run] = await history.list({ planId: plan.id });
+
+    expect(updates.at(-1)).toBe("workflow_completed");
+    expect(run.status).toBe("completed");
+    expect(run.steps[0].output).toEqual({ summary: "lint ok" });
+  });
+
+  it("should record runner executions with the error that ended them", async () => {
+    const history = new InMemoryExecutionHistoryStore();
+    const runner = new WorkflowRunner({ history });
+    runner.registerHandler("action", (step) =>
+      step.name === "test"
+        ? Promise.reject(new Error("tests failed"))
+        : Promise.resolve(`${step.name} ok`)
+    );
+    const plan = createPlanFromDefinition(definition);
+
+    await expect(
+      runner.executeSequentially(plan, {
+        planId: plan.id,
+        stepId: "",
+        data: { trigger: "push" },
+      })
+    ).rejects.toThrow("tests failed");
+
+    const [run] = await history.list({ planId: plan.id });
+
+    expect(run).toMatchObject({
+      status: "failed",
+      context: { trigger: "push" },
+      error: { message: "tests failed" },
+    });
+    expect(run.steps.map((step) => step.status)).toEqual([
+      "completed",
+      "failed",
+    ]);
+    expect(run.duration).toBeGreaterThanOrEqual(0);
+  });
+});
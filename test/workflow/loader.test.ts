@@ -0,0 +1,128 @@
+/**
+ * Workflow Loader Tests
+ * Tests for YAML/JSON workflow definition files
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  detectWorkflowFormat,
+  loadWorkflowDefinition,
+  parseWorkflowDefinition,
+} from "../../src/workflow/loader";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+
+const YAML_DEFINITION = `
+name: Fix and verify
+description: Code a change, then check it in the browser
+steps:
+  - name: code
+    type: coder
+    input:
+      instruction: Add a login button
+  - name: verify
+    type: browser
+    dependsOn: [code]
+    input:
+      url: http://localhost:3000
+      task: Check the login button is visible
+  - name: save
+    type: checkpoint
+    dependsOn: [verify]
+`;
+
+describe("Workflow Loader", () => {
+  describe("detectWorkflowFormat", () => {
+    it("should detect YAML and JSON extensions", () => {
+      expect(detectWorkflowFormat("plan.yaml")).toBe("yaml");
+      expect(detectWorkflowFormat("plan.YML")).toBe("yaml");
+      expect(detectWorkflowFormat("plan.json")).toBe("json");
+    });
+
+    it("should reject unsupported extensions", () => {
+      expect(() => detectWorkflowFormat("plan.txt")).toThrow(
+        "Unsupported workflow file extension"
+      );
+    });
+  });
+
+  describe("parseWorkflowDefinition", () => {
+    it("should parse a YAML definition", () => {
+      const definition = parseWorkflowDefinition(YAML_DEFINITION, "yaml");
+
+      expect(definition.name).toBe("Fix and verify");
+      expect(definition.steps.map((s) => s.type)).toEqual([
+        "coder",
+        "browser",
+        "checkpoint",
+      ]);
+      expect(definition.steps[1].dependsOn).toEqual(["code"]);
+    });
+
+    it("should parse a JSON definition", () => {
+      const definition = parseWorkflowDefinition(
+        JSON.stringify({
+          name: "JSON plan",
+          steps: [{ name: "init", type: "agent_init" }],
+        }),
+        "json"
+      );
+
+      expect(definition.steps).toHaveLength(1);
+    });
+
+    it("should report schema violations", () => {
+      expect(() =>
+        parseWorkflowDefinition(
+          "name: Broken\nsteps:\n  - name: a\n    type: teleport\n",
+          "yaml"
+        )
+      ).toThrow("Invalid workflow definition");
+    });
+
+    it("should report syntax errors", () => {
+      expect(() => parseWorkflowDefinition("{ not json", "json")).toThrow(
+        "Failed to parse workflow definition"
+      );
+    });
+
+    it("should report unknown dependency names", () => {
+      expect(() =>
+        parseWorkflowDefinition(
+          "name: Broken\nsteps:\n  - name: a\n    type: action\n    dependsOn: [b]\n",
+          "yaml"
+        )
+      ).toThrow("Unknown step dependency");
+    });
+  });
+
+  describe("loadWorkflowDefinition", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "workflow-loader-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should load a definition file into a runnable plan", async () => {
+      const file = join(dir, "plan.yaml");
+      await writeFile(file, YAML_DEFINITION, "utf-8");
+
+      const plan = createPlanFromDefinition(await loadWorkflowDefinition(file));
+
+      expect(plan.steps).toHaveLength(3);
+      expect(plan.steps[1].dependencies).toEqual([plan.steps[0].id]);
+    });
+
+    it("should fail for missing files", async () => {
+      await expect(
+        loadWorkflowDefinition(join(dir, "missing.json"))
+      ).rejects.toThrow("Failed to read workflow definition file");
+    });
+  });
+});
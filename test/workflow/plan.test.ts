@@ -7,7 +7,9 @@ import { beforeEach, describe, expect, it } from "vitest";
 import {
   addDependencyToPlan,
   addStepToPlan,
+  createPlanFromDefinition,
   createWorkflowPlan,
+  planToDefinition,
   resolveDependencies,
   validatePlanDefinition,
   type WorkflowPlan,
@@ -278,4 +280,221 @@ describe("WorkflowPlan", () => {
       }).toThrow();
     });
   });
+
+  describe("planToDefinition", () => {
+    it("should recover a definition that recreates the plan", () => {
+      const original = createPlanFromDefinition({
+        name: "Round Trip",
+        context: { env: "ci" },
+        steps: [
+          { name: "build", type: "action", input: { target: "app" } },
+          { name: "test", type: "action", dependsOn: ["build"] },
+        ],
+      });
+      original.steps[0].status = "completed";
+      original.steps[0].output = "built";
+
+      const definition = planToDefinition(original);
+
+      expect(definition.steps).toEqual([
+        {
+          name: "build",
+          type: "action",
+          input: { target: "app" },
+          dependsOn: [],
+        },
+        { name: "test", type: "action", dependsOn: ["build"] },
+      ]);
+      expect(createPlanFromDefinition(definition).context).toEqual({
+        env: "ci",
+      });
+    });
+  });
+
+  describe("createPlanFromDefinition", () => {
+    it("should resolve dependsOn step names to step IDs", () => {
+      const created = createPlanFromDefinition({
+        name: "Named Dependencies",
+        steps: [
+          { name: "code", type: "action" },
+          { name: "verify", type: "action", dependsOn: ["code"] },
+          { name: "report", type: "action", dependsOn: ["code", "verify"] },
+        ],
+      });
+
+      const [code, verify, report] = created.steps;
+
+      expect(code.dependencies).toEqual([]);
+      expect(verify.dependencies).toEqual([code.id]);
+      expect(report.dependencies).toEqual([code.id, verify.id]);
+      expect(resolveDependencies(created).map((s) => s.name)).toEqual([
+        "code",
+        "verify",
+        "report",
+      ]);
+    });
+
+    it("should allow dependencies on later steps", () => {
+      const created = createPlanFromDefinition({
+        name: "Forward Reference",
+        steps: [
+          { name: "deploy", type: "action", dependsOn: ["build"] },
+          { name: "build", type: "action" },
+        ],
+      });
+
+      expect(resolveDependencies(created).map((s) => s.name)).toEqual([
+        "build",
+        "deploy",
+      ]);
+    });
+
+    it("should reject circular named dependencies", () => {
+      expect(() =>
+        createPlanFromDefinition({
+          name: "Cycle",
+          steps: [
+            { name: "a", type: "action", dependsOn: ["b"] },
+            { name: "b", type: "action", dependsOn: ["a"] },
+          ],
+        })
+      ).toThrow("Circular dependency detected");
+    });
+
+    it("should reject unknown dependency names", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Unknown",
+          steps: [{ name: "a", type: "action", dependsOn: ["missing"] }],
+        })
+      ).toThrow("Unknown step dependency");
+    });
+
+    it("should reject duplicate step names", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Duplicate",
+          steps: [
+            { name: "a", type: "action" },
+            { name: "a", type: "checkpoint" },
+          ],
+        })
+      ).toThrow("Duplicate step name");
+    });
+
+    it("should reject malformed step conditions", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Bad Condition",
+          steps: [{ name: "a", type: "action", condition: "context.ready &&" }],
+        })
+      ).toThrow("Invalid condition expression");
+    });
+
+    it("should reject branch targets that do not depend on the branch", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Detached Branch",
+          steps: [
+            {
+              name: "route",
+              type: "branch",
+              branches: [{ name: "fix", steps: ["fix"] }],
+            },
+            { name: "fix", type: "action" },
+          ],
+        })
+      ).toThrow("Branch target must depend on its branch step");
+    });
+
+    it("should reject unknown branch targets", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Unknown Target",
+          steps: [
+            {
+              name: "route",
+              type: "branch",
+              branches: [{ name: "fix", steps: ["missing"] }],
+            },
+          ],
+        })
+      ).toThrow("Unknown branch step");
+    });
+
+    it("should require exactly one subworkflow source", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Ambiguous",
+          steps: [
+            {
+              name: "child",
+              type: "subworkflow",
+              subworkflow: { file: "a.yaml", planId: "plan_1" },
+            },
+          ],
+        })
+      ).toThrow("exactly one of definition, file or planId");
+    });
+
+    it("should validate inline subworkflow definitions", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Broken Child",
+          steps: [
+            {
+              name: "child",
+              type: "subworkflow",
+              subworkflow: { definition: { name: "Child", steps: [] } },
+            },
+          ],
+        })
+      ).toThrow("Invalid subworkflow definition");
+    });
+
+    it("should reject map steps without a map configuration", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Bare Map",
+          steps: [{ name: "each", type: "map" }],
+        })
+      ).toThrow("Map step requires a map configuration");
+    });
+
+    it("should reject nested control steps inside loops", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Nested Loop",
+          steps: [
+            {
+              name: "outer",
+              type: "loop",
+              loop: {
+                steps: [{ name: "inner", type: "loop" }],
+                maxIterations: 2,
+              },
+            },
+          ],
+        })
+      ).toThrow("Loop steps cannot contain control steps");
+    });
+
+    it("should validate the loop sub-plan", () => {
+      expect(() =>
+        validatePlanDefinition({
+          name: "Broken Loop",
+          steps: [
+            {
+              name: "fix",
+              type: "loop",
+              loop: {
+                steps: [{ name: "test", type: "action", dependsOn: ["code"] }],
+                maxIterations: 2,
+              },
+            },
+          ],
+        })
+      ).toThrow("Unknown step dependency");
+    });
+  });
 });
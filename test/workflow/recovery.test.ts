@@ -4,10 +4,18 @@
  */
 
 import { beforeEach, describe, expect, it } from "vitest";
-import { addStepToPlan, createWorkflowPlan } from "../../src/workflow/plan";
 import {
   type CheckpointStore,
+  InMemoryCheckpointStore,
+} from "../../src/workflow/checkpoint-store";
+import {
+  addDependencyToPlan,
+  addStepToPlan,
+  createWorkflowPlan,
+} from "../../src/workflow/plan";
+import {
   createCheckpoint,
+  hashPlanDefinition,
   loadCheckpoint,
   RecoveryManager,
   saveCheckpoint,
@@ -17,7 +25,7 @@ describe("Checkpoint Management", () => {
   let store: CheckpointStore;
 
   beforeEach(() => {
-    store = new Map();
+    store = new InMemoryCheckpointStore();
   });
 
   describe("createCheckpoint", () => {
@@ -72,8 +80,7 @@ describe("Checkpoint Management", () => {
 
       await saveCheckpoint(store, checkpoint);
 
-      expect(store.has(checkpoint.id)).toBe(true);
-      expect(store.get(checkpoint.id)).toEqual(checkpoint);
+      expect(await store.load(checkpoint.id)).toEqual(checkpoint);
     });
 
     it("should overwrite existing checkpoint with same id", async () => {
@@ -90,8 +97,9 @@ describe("Checkpoint Management", () => {
       await saveCheckpoint(store, checkpoint1);
       await saveCheckpoint(store, checkpoint2);
 
-      expect(store.size).toBe(1);
-      expect(store.get(checkpoint1.id)?.metadata.version).toBe(2);
+      const stored = await store.list();
+      expect(stored).toHaveLength(1);
+      expect(stored[0].metadata.version).toBe(2);
     });
   });
 
@@ -139,7 +147,7 @@ describe("RecoveryManager", () => {
   let store: CheckpointStore;
 
   beforeEach(() => {
-    store = new Map();
+    store = new InMemoryCheckpointStore();
     manager = new RecoveryManager(store);
   });
 
@@ -249,6 +257,105 @@ describe("RecoveryManager", () => {
     });
   });
 
+  describe("restoreFromCheckpoint", () => {
+    it("should restore outputs, timings and context of completed steps", async () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step1 = addStepToPlan(plan, { name: "Step 1", type: "action" });
+      const step2 = addStepToPlan(plan, { name: "Step 2", type: "action" });
+      step1.status = "completed";
+      step1.output = { files: ["a.ts"] };
+      step1.startTime = 100;
+      step1.endTime = 200;
+      step2.status = "failed";
+      step2.error = { code: "STEP_EXECUTION_ERROR", message: "boom" };
+      plan.context = { attempt: 1 };
+
+      const checkpoint = await manager.createRecoveryPoint(plan, [step1]);
+
+      step1.output = undefined;
+      step1.status = "pending";
+      plan.context = {};
+
+      await manager.restoreFromCheckpoint(checkpoint, plan);
+
+      expect(step1.status).toBe("completed");
+      expect(step1.output).toEqual({ files: ["a.ts"] });
+      expect(step1.endTime).toBe(200);
+      expect(step2.status).toBe("pending");
+      expect(step2.error).toBeUndefined();
+      expect(checkpoint.steps[step2.id].error?.message).toBe("boom");
+      expect(plan.context).toEqual({ attempt: 1 });
+    });
+
+    it("should snapshot outputs rather than reference them", async () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, { name: "Step 1", type: "action" });
+      step.status = "completed";
+      step.output = { count: 1 };
+
+      const checkpoint = await manager.createRecoveryPoint(plan, [step]);
+      (step.output as { count: number }).count = 2;
+
+      expect(checkpoint.steps[step.id].output).toEqual({ count: 1 });
+    });
+  });
+
+  describe("validateCheckpoint", () => {
+    it("should accept a checkpoint taken against the same plan revision", async () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, { name: "Step 1", type: "action" });
+      const checkpoint = await manager.createRecoveryPoint(plan, [step]);
+
+      step.status = "completed";
+      step.output = "done";
+
+      expect(await manager.validateCheckpoint(checkpoint, plan)).toBe(true);
+    });
+
+    it("should reject a checkpoint taken against a different plan revision", async () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step1 = addStepToPlan(plan, { name: "Step 1", type: "action" });
+      const checkpoint = await manager.createRecoveryPoint(plan, [step1]);
+
+      const step2 = addStepToPlan(plan, { name: "Step 2", type: "action" });
+      addDependencyToPlan(plan, step2.id, step1.id);
+
+      expect(await manager.validateCheckpoint(checkpoint, plan)).toBe(false);
+    });
+  });
+
+  describe("hashPlanDefinition", () => {
+    it("should ignore execution state", () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Step 1",
+        type: "action",
+        input: { b: 1, a: 2 },
+      });
+      const before = hashPlanDefinition(plan);
+
+      step.status = "completed";
+      step.output = { ok: true };
+      plan.context = { runId: "run_1" };
+
+      expect(hashPlanDefinition(plan)).toBe(before);
+    });
+
+    it("should change when a step input changes", () => {
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Step 1",
+        type: "action",
+        input: { url: "http://localhost:3000" },
+      });
+      const before = hashPlanDefinition(plan);
+
+      step.input = { url: "http://localhost:4000" };
+
+      expect(hashPlanDefinition(plan)).not.toBe(before);
+    });
+  });
+
   describe("deleteCheckpoint", () => {
     it("should delete a checkpoint", async () => {
       const plan = createWorkflowPlan({ name: "Test" });
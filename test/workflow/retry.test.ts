@@ -0,0 +1,132 @@
+/**
+ * Workflow Retry Tests
+ * Tests for retry policies and error classification
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  ErrorCode,
+  StructuredError,
+  ValidationError,
+} from "../../src/core/errors";
+import { addStepToPlan, createWorkflowPlan } from "../../src/workflow/plan";
+import {
+  classifyError,
+  getRetryDelay,
+  isRetryable,
+  resolveRetryPolicy,
+} from "../../src/workflow/retry";
+
+describe("classifyError", () => {
+  it("should use the code of structured errors", () => {
+    expect(classifyError(new ValidationError("bad input"))).toBe(
+      ErrorCode.VALIDATION_ERROR
+    );
+    expect(
+      classifyError(
+        new StructuredError("slow down", ErrorCode.RATE_LIMIT_ERROR)
+      )
+    ).toBe(ErrorCode.RATE_LIMIT_ERROR);
+  });
+
+  it("should recognise error codes on plain errors", () => {
+    const error = Object.assign(new Error("limited"), {
+      code: "RATE_LIMIT_ERROR",
+    });
+
+    expect(classifyError(error)).toBe(ErrorCode.RATE_LIMIT_ERROR);
+  });
+
+  it("should classify system and HTTP errors", () => {
+    expect(
+      classifyError(
+        Object.assign(new Error("connect timed out"), { code: "ETIMEDOUT" })
+      )
+    ).toBe(ErrorCode.TIMEOUT_ERROR);
+    expect(
+      classifyError(
+        Object.assign(new Error("socket hang up"), { code: "ECONNRESET" })
+      )
+    ).toBe(ErrorCode.NETWORK_ERROR);
+    expect(
+      classifyError(
+        Object.assign(new Error("Too many requests"), { status: 429 })
+      )
+    ).toBe(ErrorCode.RATE_LIMIT_ERROR);
+    expect(classifyError(new DOMException("Timed out", "TimeoutError"))).toBe(
+      ErrorCode.TIMEOUT_ERROR
+    );
+  });
+
+  it("should treat unknown failures as internal errors", () => {
+    expect(classifyError(new Error("boom"))).toBe(ErrorCode.INTERNAL_ERROR);
+    expect(classifyError("boom")).toBe(ErrorCode.INTERNAL_ERROR);
+  });
+});
+
+describe("isRetryable", () => {
+  it("should retry transient errors by default", () => {
+    const policy = { maxAttempts: 3 };
+
+    expect(isRetryable(policy, ErrorCode.RATE_LIMIT_ERROR)).toBe(true);
+    expect(isRetryable(policy, ErrorCode.TIMEOUT_ERROR)).toBe(true);
+    expect(isRetryable(policy, ErrorCode.VALIDATION_ERROR)).toBe(false);
+    expect(isRetryable(policy, ErrorCode.INTERNAL_ERROR)).toBe(false);
+  });
+
+  it("should honour the codes listed on the policy", () => {
+    const policy = { maxAttempts: 3, retryOn: [ErrorCode.INTERNAL_ERROR] };
+
+    expect(isRetryable(policy, ErrorCode.INTERNAL_ERROR)).toBe(true);
+    expect(isRetryable(policy, ErrorCode.RATE_LIMIT_ERROR)).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("should back off exponentially up to the maximum delay", () => {
+    const policy = { maxAttempts: 5, delay: 100, maxDelay: 300 };
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 2)).toBe(200);
+    expect(getRetryDelay(policy, 3)).toBe(300);
+  });
+
+  it("should keep jittered delays within bounds", () => {
+    const policy = { maxAttempts: 2, delay: 100, jitter: 0.5 };
+
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(policy, 1);
+      expect(delay).toBeGreaterThanOrEqual(50);
+      expect(delay).toBeLessThanOrEqual(150);
+    }
+  });
+});
+
+describe("resolveRetryPolicy", () => {
+  it("should prefer the step policy", () => {
+    const plan = createWorkflowPlan({ name: "Test" });
+    const step = addStepToPlan(plan, {
+      name: "Step 1",
+      type: "action",
+      retry: { maxAttempts: 5, delay: 10 },
+    });
+
+    expect(resolveRetryPolicy(plan, step)).toEqual({
+      maxAttempts: 5,
+      delay: 10,
+    });
+  });
+
+  it("should fall back to the plan configuration", () => {
+    const plan = createWorkflowPlan({
+      name: "Test",
+      config: { retryAttempts: 2, retryDelay: 50 },
+    });
+    const step = addStepToPlan(plan, { name: "Step 1", type: "action" });
+
+    expect(resolveRetryPolicy(plan, step)).toEqual({
+      maxAttempts: 3,
+      delay: 50,
+    });
+  });
+});
@@ -3,18 +3,35 @@
  * Tests for step execution logic and parallel step support
  */
 
-import { beforeEach, describe, expect, it } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WorkflowUpdateMessage } from "../../src/contracts/workflow";
+import {
+  ErrorCode,
+  StructuredError,
+  ValidationError,
+} from "../../src/core/errors";
+import { ApprovalGate } from "../../src/workflow/approval";
+import { InMemoryCheckpointStore } from "../../src/workflow/checkpoint-store";
 import {
   addDependencyToPlan,
   addStepToPlan,
+  createPlanFromDefinition,
   createWorkflowPlan,
 } from "../../src/workflow/plan";
+import { RecoveryManager } from "../../src/workflow/recovery";
 import {
   type ExecutionContext,
   type ParallelExecutionOptions,
   type StepHandler,
   WorkflowRunner,
 } from "../../src/workflow/runner";
+import { InMemoryWorkflowPlanStore } from "../../src/workflow/store";
+import { getStepOutput } from "../../src/workflow/template";
+
+const EXECUTION_ID_PATTERN = /^exec_/;
 
 describe("WorkflowRunner", () => {
   let runner: WorkflowRunner;
@@ -363,6 +380,1870 @@ describe("WorkflowRunner", () => {
     });
   });
 
+  describe("executeGraph", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    it("should run dependents as soon as their dependencies complete", async () => {
+      const started: Record<string, number> = {};
+      const start = Date.now();
+
+      runner.registerHandler("action", async (step) => {
+        started[step.name] = Date.now() - start;
+        const delay = (step.config?.delay as number | undefined) ?? 10;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return step.name;
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const fast = addStepToPlan(plan, { name: "fast", type: "action" });
+      const slow = addStepToPlan(plan, {
+        name: "slow",
+        type: "action",
+        config: { delay: 80 },
+      });
+      const afterFast = addStepToPlan(plan, {
+        name: "afterFast",
+        type: "action",
+      });
+      addDependencyToPlan(plan, afterFast.id, fast.id);
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      // afterFast must not wait for the unrelated slow step
+      expect(started.afterFast).toBeLessThan(60);
+      expect(slow.status).toBe("completed");
+      expect(afterFast.status).toBe("completed");
+    });
+
+    it("should take the critical path for wide fan-out", async () => {
+      runner.registerHandler("action", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        return { success: true };
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const root = addStepToPlan(plan, { name: "root", type: "action" });
+      const sink = addStepToPlan(plan, { name: "sink", type: "action" });
+      for (let i = 0; i < 4; i++) {
+        const branch = addStepToPlan(plan, {
+          name: `branch ${i}`,
+          type: "action",
+        });
+        addDependencyToPlan(plan, branch.id, root.id);
+        addDependencyToPlan(plan, sink.id, branch.id);
+      }
+
+      const startTime = Date.now();
+      const results = await runner.executeGraph(plan, context(plan.id));
+      const totalTime = Date.now() - startTime;
+
+      // Critical path is 3 steps (~90ms), the sum of all steps is 180ms
+      expect(totalTime).toBeLessThan(160);
+      expect(results).toHaveLength(6);
+      expect(plan.steps.every((s) => s.status === "completed")).toBe(true);
+    });
+
+    it("should respect max concurrency", async () => {
+      let concurrent = 0;
+      let maxConcurrent = 0;
+
+      runner.registerHandler("action", async () => {
+        concurrent += 1;
+        maxConcurrent = Math.max(maxConcurrent, concurrent);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        concurrent -= 1;
+        return { success: true };
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      for (let i = 0; i < 6; i++) {
+        addStepToPlan(plan, { name: `Step ${i}`, type: "action" });
+      }
+
+      await runner.executeGraph(plan, context(plan.id), { maxConcurrency: 2 });
+
+      expect(maxConcurrent).toBe(2);
+    });
+
+    it("should stop scheduling after the first failure by default", async () => {
+      runner.registerHandler("fail", () => {
+        throw new Error("Root failed");
+      });
+      runner.registerHandler("action", async () => ({ success: true }));
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const root = addStepToPlan(plan, { name: "root", type: "fail" });
+      const child = addStepToPlan(plan, { name: "child", type: "action" });
+      addDependencyToPlan(plan, child.id, root.id);
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Root failed"
+      );
+
+      expect(root.status).toBe("failed");
+      expect(child.status).toBe("pending");
+    });
+
+    it("should finish running steps and leave the failed step's dependents pending", async () => {
+      const updates: WorkflowUpdateMessage[] = [];
+      runner.onUpdate((update) => updates.push(update));
+      runner.registerHandler("fail", () => {
+        throw new Error("Root failed");
+      });
+      runner.registerHandler("action", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return { success: true };
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const root = addStepToPlan(plan, { name: "root", type: "fail" });
+      const slow = addStepToPlan(plan, { name: "slow", type: "action" });
+      const child = addStepToPlan(plan, { name: "child", type: "action" });
+      addDependencyToPlan(plan, child.id, root.id);
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Root failed"
+      );
+
+      expect(slow.status).toBe("completed");
+      expect(child.status).toBe("pending");
+      expect(child.error).toBeUndefined();
+      expect(updates.some((update) => update.stepId === child.id)).toBe(false);
+    });
+
+    it("should propagate failures to dependents with continueOnError", async () => {
+      runner.registerHandler("fail", () => {
+        throw new Error("Root failed");
+      });
+      runner.registerHandler("action", async () => ({ success: true }));
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const root = addStepToPlan(plan, { name: "root", type: "fail" });
+      const child = addStepToPlan(plan, { name: "child", type: "action" });
+      const grandchild = addStepToPlan(plan, {
+        name: "grandchild",
+        type: "action",
+      });
+      const unrelated = addStepToPlan(plan, {
+        name: "unrelated",
+        type: "action",
+      });
+      addDependencyToPlan(plan, child.id, root.id);
+      addDependencyToPlan(plan, grandchild.id, child.id);
+
+      await expect(
+        runner.executeGraph(plan, context(plan.id), { continueOnError: true })
+      ).rejects.toThrow("Graph execution errors");
+
+      expect(child.status).toBe("failed");
+      expect(child.error?.code).toBe("DEPENDENCY_FAILED");
+      expect(grandchild.status).toBe("failed");
+      expect(unrelated.status).toBe("completed");
+    });
+
+    it("should skip steps that are already completed", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        return Promise.resolve({ success: true });
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const done = addStepToPlan(plan, { name: "done", type: "action" });
+      const next = addStepToPlan(plan, { name: "next", type: "action" });
+      addDependencyToPlan(plan, next.id, done.id);
+      done.status = "completed";
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(calls).toBe(1);
+      expect(next.status).toBe("completed");
+    });
+  });
+
+  describe("dependency outputs", () => {
+    it("should expose dependency outputs by step ID and name", async () => {
+      let received: ExecutionContext["dependencyOutputs"];
+
+      runner.registerHandler("fetch", async () => ({ url: "https://x.dev" }));
+      runner.registerHandler("use", (_step, executionContext) => {
+        received = executionContext.dependencyOutputs;
+        return Promise.resolve({ success: true });
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const fetch = addStepToPlan(plan, { name: "fetch", type: "fetch" });
+      const unrelated = addStepToPlan(plan, {
+        name: "unrelated",
+        type: "fetch",
+      });
+      const use = addStepToPlan(plan, { name: "use", type: "use" });
+      addDependencyToPlan(plan, use.id, fetch.id);
+      addDependencyToPlan(plan, unrelated.id, fetch.id);
+
+      await runner.executeSequentially(plan, {
+        planId: plan.id,
+        stepId: "",
+        data: {},
+      });
+
+      expect(getStepOutput(received, fetch.id)).toEqual({
+        url: "https://x.dev",
+      });
+      expect(getStepOutput(received, "fetch")).toEqual({
+        url: "https://x.dev",
+      });
+      expect(getStepOutput(received, "unrelated")).toBeUndefined();
+    });
+
+    it("should resolve input templates before calling the handler", async () => {
+      let input: ExecutionContext["input"];
+
+      runner.registerHandler("fetch", async () => ({
+        url: "https://x.dev",
+        files: ["a.ts", "b.ts"],
+      }));
+      runner.registerHandler("use", (_step, executionContext) => {
+        input = executionContext.input;
+        return Promise.resolve({ success: true });
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const fetch = addStepToPlan(plan, { name: "fetch", type: "fetch" });
+      const use = addStepToPlan(plan, {
+        name: "use",
+        type: "use",
+        input: {
+          url: "{{steps.fetch.output.url}}",
+          message: "Open {{ steps.fetch.output.url }} now",
+          first: "{{steps.fetch.output.files.0}}",
+          nested: { files: "{{steps.fetch.output.files}}" },
+        },
+      });
+      addDependencyToPlan(plan, use.id, fetch.id);
+
+      await runner.executeGraph(plan, {
+        planId: plan.id,
+        stepId: "",
+        data: {},
+      });
+
+      expect(input).toEqual({
+        url: "https://x.dev",
+        message: "Open https://x.dev now",
+        first: "a.ts",
+        nested: { files: ["a.ts", "b.ts"] },
+      });
+      expect(use.input?.url).toBe("{{steps.fetch.output.url}}");
+    });
+
+    it("should fail the step when a template references a non-dependency", async () => {
+      runner.registerHandler("action", async () => ({ success: true }));
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      addStepToPlan(plan, { name: "fetch", type: "action" });
+      const use = addStepToPlan(plan, {
+        name: "use",
+        type: "action",
+        input: { url: "{{steps.fetch.output.url}}" },
+      });
+
+      await expect(
+        runner.executeSequentially(plan, {
+          planId: plan.id,
+          stepId: "",
+          data: {},
+        })
+      ).rejects.toThrow("Unresolved template reference");
+
+      expect(use.status).toBe("failed");
+      expect(use.error?.code).toBe("TEMPLATE_RESOLUTION_ERROR");
+    });
+
+    it("should resolve templates referencing step names with dots", async () => {
+      let input: ExecutionContext["input"];
+
+      runner.registerHandler("fetch", async () => ({ url: "https://x.dev" }));
+      runner.registerHandler("use", (_step, executionContext) => {
+        input = executionContext.input;
+        return Promise.resolve({ success: true });
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const fetch = addStepToPlan(plan, { name: "fetch.v2", type: "fetch" });
+      const use = addStepToPlan(plan, {
+        name: "use",
+        type: "use",
+        input: { message: "Open {{steps.fetch.v2.output.url}}" },
+      });
+      addDependencyToPlan(plan, use.id, fetch.id);
+
+      await runner.executeGraph(plan, {
+        planId: plan.id,
+        stepId: "",
+        data: {},
+      });
+
+      expect(input).toEqual({ message: "Open https://x.dev" });
+    });
+
+    it("should fail the step when an interpolated template is undefined", async () => {
+      runner.registerHandler("action", async () => ({ url: "https://x.dev" }));
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const fetch = addStepToPlan(plan, { name: "fetch", type: "action" });
+      const use = addStepToPlan(plan, {
+        name: "use",
+        type: "action",
+        input: { message: "Open {{steps.fetch.output.link}}" },
+      });
+      addDependencyToPlan(plan, use.id, fetch.id);
+
+      await expect(
+        runner.executeSequentially(plan, {
+          planId: plan.id,
+          stepId: "",
+          data: {},
+        })
+      ).rejects.toThrow("Unresolved template reference");
+
+      expect(use.error?.code).toBe("TEMPLATE_RESOLUTION_ERROR");
+      expect(use.error?.details).toMatchObject({
+        details: { template: "{{steps.fetch.output.link}}" },
+      });
+    });
+  });
+
+  describe("conditions and branches", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    beforeEach(() => {
+      runner.registerHandler("action", async (step) => step.config ?? {});
+    });
+
+    it("should skip steps whose condition is false", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Conditional",
+        context: { verify: true },
+        steps: [
+          { name: "code", type: "action", config: { files: [] } },
+          {
+            name: "browser",
+            type: "action",
+            dependsOn: ["code"],
+            condition: "steps.code.output.files.length > 0",
+          },
+          {
+            name: "report",
+            type: "action",
+            dependsOn: ["code"],
+            condition: "context.verify == true",
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      const [code, browser, report] = plan.steps;
+      expect(code.status).toBe("completed");
+      expect(browser.status).toBe("skipped");
+      expect(browser.output).toBeUndefined();
+      expect(report.status).toBe("completed");
+    });
+
+    it("should skip steps whose dependencies were all skipped", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Skip Chain",
+        steps: [
+          { name: "code", type: "action" },
+          {
+            name: "browser",
+            type: "action",
+            dependsOn: ["code"],
+            condition: "false",
+          },
+          { name: "screenshot", type: "action", dependsOn: ["browser"] },
+          {
+            name: "report",
+            type: "action",
+            dependsOn: ["code", "screenshot"],
+          },
+        ],
+      });
+
+      await runner.executeSequentially(plan, context(plan.id));
+
+      expect(plan.steps.map((s) => s.status)).toEqual([
+        "completed",
+        "skipped",
+        "skipped",
+        "completed",
+      ]);
+    });
+
+    it("should run only the selected branch", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Branching",
+        steps: [
+          { name: "test", type: "action", config: { failures: 2 } },
+          {
+            name: "route",
+            type: "branch",
+            dependsOn: ["test"],
+            branches: [
+              {
+                name: "fix",
+                when: "steps.test.output.failures > 0",
+                steps: ["fix"],
+              },
+              { name: "ship", steps: ["deploy"] },
+            ],
+          },
+          { name: "fix", type: "action", dependsOn: ["route"] },
+          { name: "retest", type: "action", dependsOn: ["fix"] },
+          { name: "deploy", type: "action", dependsOn: ["route"] },
+          { name: "notify", type: "action", dependsOn: ["retest", "deploy"] },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      const status = Object.fromEntries(
+        plan.steps.map((s) => [s.name, s.status])
+      );
+      expect(plan.steps[1].output).toEqual({ branch: "fix" });
+      expect(status).toEqual({
+        test: "completed",
+        route: "completed",
+        fix: "completed",
+        retest: "completed",
+        deploy: "skipped",
+        notify: "completed",
+      });
+    });
+
+    it("should fail the step when its condition cannot be evaluated", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Bad Reference",
+        steps: [
+          { name: "code", type: "action" },
+          {
+            name: "browser",
+            type: "action",
+            condition: "steps.code.output.changed",
+          },
+        ],
+      });
+
+      await expect(
+        runner.executeSequentially(plan, context(plan.id))
+      ).rejects.toThrow("Unresolved condition reference");
+      expect(plan.steps[1].status).toBe("failed");
+      expect(plan.steps[1].error?.code).toBe("CONDITION_EVALUATION_ERROR");
+    });
+
+    it("should count skipped steps separately in plan progress", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Progress",
+        steps: [
+          { name: "a", type: "action" },
+          { name: "b", type: "action", condition: "false" },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(runner.getPlanProgress(plan)).toMatchObject({
+        total: 2,
+        completed: 1,
+        skipped: 1,
+        percentage: 100,
+      });
+    });
+  });
+
+  describe("map and loop steps", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    it("should run the child step once per item and aggregate the results", async () => {
+      const instructions: unknown[] = [];
+
+      runner.registerHandler("action", async () => ({
+        files: ["a.ts", "b.ts", "c.ts"],
+      }));
+      runner.registerHandler("coder", (_step, stepContext) => {
+        instructions.push(stepContext.input?.instruction);
+        return Promise.resolve(`done ${stepContext.data.index}`);
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Fan-out",
+        steps: [
+          { name: "list", type: "action" },
+          {
+            name: "edit",
+            type: "map",
+            dependsOn: ["list"],
+            map: {
+              over: "steps.list.output.files",
+              step: {
+                type: "coder",
+                input: { instruction: "Add types to {{item}}" },
+              },
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      const edit = plan.steps[1];
+      expect(edit.status).toBe("completed");
+      expect(edit.output).toEqual({
+        results: ["done 0", "done 1", "done 2"],
+      });
+      expect(instructions).toEqual([
+        "Add types to a.ts",
+        "Add types to b.ts",
+        "Add types to c.ts",
+      ]);
+      expect(edit.iterations?.map((i) => i.status)).toEqual([
+        "completed",
+        "completed",
+        "completed",
+      ]);
+    });
+
+    it("should bound map concurrency", async () => {
+      let active = 0;
+      let peak = 0;
+
+      runner.registerHandler("action", async () => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        active -= 1;
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Bounded",
+        context: { items: [1, 2, 3, 4, 5, 6] },
+        steps: [
+          {
+            name: "each",
+            type: "map",
+            map: {
+              over: "context.items",
+              step: { type: "action" },
+              concurrency: 2,
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(peak).toBe(2);
+    });
+
+    it("should fail the map step when the source is not an array", async () => {
+      const plan = createPlanFromDefinition({
+        name: "Not an array",
+        context: { items: "a,b" },
+        steps: [
+          {
+            name: "each",
+            type: "map",
+            map: { over: "context.items", step: { type: "action" } },
+          },
+        ],
+      });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Map source is not an array"
+      );
+      expect(plan.steps[0].status).toBe("failed");
+    });
+
+    it("should repeat the loop sub-plan until its condition holds", async () => {
+      let runs = 0;
+
+      runner.registerHandler("coder", async (_step, stepContext) => ({
+        attempt: stepContext.input?.attempt,
+      }));
+      runner.registerHandler("action", () => {
+        runs += 1;
+        return Promise.resolve({ passed: runs >= 3 });
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Fix until green",
+        steps: [
+          {
+            name: "fix",
+            type: "loop",
+            loop: {
+              steps: [
+                { name: "code", type: "coder" },
+                { name: "test", type: "action", dependsOn: ["code"] },
+              ],
+              until: "steps.test.output.passed == true",
+              maxIterations: 5,
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      const output = plan.steps[0].output as {
+        iterations: number;
+        results: Record<string, unknown>[];
+      };
+      expect(output.iterations).toBe(3);
+      expect(output.results.at(-1)?.test).toEqual({ passed: true });
+    });
+
+    it("should stop after the maximum number of iterations", async () => {
+      runner.registerHandler("action", async () => ({ passed: false }));
+
+      const plan = createPlanFromDefinition({
+        name: "Never green",
+        steps: [
+          {
+            name: "fix",
+            type: "loop",
+            loop: {
+              steps: [{ name: "test", type: "action" }],
+              until: "steps.test.output.passed",
+              maxIterations: 2,
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(plan.steps[0].status).toBe("completed");
+      expect(plan.steps[0].iterations).toHaveLength(2);
+    });
+
+    it("should checkpoint each item and resume partway through a map", async () => {
+      const checkpoints = new InMemoryCheckpointStore();
+      const recovery = new RecoveryManager(checkpoints);
+      const planStore = new InMemoryWorkflowPlanStore();
+      const processed: unknown[] = [];
+      let failOn: unknown = "c";
+
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        planStore,
+        checkpointPolicy: { afterEachStep: true },
+      });
+      checkpointing.registerHandler("action", (_step, stepContext) => {
+        if (stepContext.data.item === failOn) {
+          throw new Error("boom");
+        }
+        processed.push(stepContext.data.item);
+        return Promise.resolve(stepContext.data.item);
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Resumable map",
+        context: { items: ["a", "b", "c", "d"] },
+        steps: [
+          {
+            name: "each",
+            type: "map",
+            map: {
+              over: "context.items",
+              step: { type: "action", retry: { maxAttempts: 1 } },
+              concurrency: 1,
+            },
+          },
+        ],
+      });
+
+      await expect(
+        checkpointing.executeGraph(plan, context(plan.id))
+      ).rejects.toThrow("boom");
+
+      const latest = await recovery.getLatestCheckpoint(plan.id);
+      expect(latest?.metadata).toMatchObject({
+        reason: "iteration_completed",
+        iteration: 1,
+      });
+
+      failOn = undefined;
+      processed.length = 0;
+
+      await checkpointing.resumePlan(plan.id);
+
+      const resumed = await planStore.load(plan.id);
+      expect(processed).toEqual(["c", "d"]);
+      expect(resumed?.steps[0].output).toEqual({
+        results: ["a", "b", "c", "d"],
+      });
+    });
+  });
+
+  describe("approval steps", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    let approvals: ApprovalGate;
+    let planStore: InMemoryWorkflowPlanStore;
+
+    beforeEach(() => {
+      approvals = new ApprovalGate();
+      planStore = new InMemoryWorkflowPlanStore();
+      runner = new WorkflowRunner({ approvals, planStore });
+      runner.registerHandler("coder", async () => ({ files: ["a.ts"] }));
+      runner.registerHandler("action", async () => "pushed");
+    });
+
+    const approvalPlan = (expiresIn?: number) =>
+      createPlanFromDefinition({
+        name: "Gated push",
+        steps: [
+          { name: "code", type: "coder" },
+          {
+            name: "review",
+            type: "approval",
+            dependsOn: ["code"],
+            approval: {
+              question: "Push {{steps.code.output.files}}?",
+              expiresIn,
+            },
+          },
+          { name: "push", type: "action", dependsOn: ["review"] },
+        ],
+      });
+
+    const nextRequest = () =>
+      vi.waitFor(() => {
+        const [request] = approvals.getPendingRequests();
+        if (!request) {
+          throw new Error("No pending approval request");
+        }
+        return request;
+      });
+
+    it("should wait for input and continue once approved", async () => {
+      const plan = approvalPlan();
+      const result = runner.executeGraph(plan, context(plan.id));
+
+      const request = await nextRequest();
+      expect(request.question).toBe('Push ["a.ts"]?');
+      expect(plan.steps[1].status).toBe("waiting_for_input");
+      expect(plan.status).toBe("waiting_for_input");
+      expect((await planStore.load(plan.id))?.status).toBe("waiting_for_input");
+
+      approvals.respond({ requestId: request.id, approved: true });
+      await result;
+
+      expect(plan.status).toBeUndefined();
+      expect(plan.steps[1].output).toMatchObject({ approved: true });
+      expect(plan.steps[2].status).toBe("completed");
+    });
+
+    it("should not count time waiting for input towards the plan deadline", async () => {
+      const plan = approvalPlan();
+      plan.config.timeout = 50;
+      const result = runner.executeGraph(plan, context(plan.id));
+
+      const request = await nextRequest();
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      approvals.respond({ requestId: request.id, approved: true });
+
+      await expect(result).resolves.toBeDefined();
+      expect(plan.steps[2].status).toBe("completed");
+    });
+
+    it("should fail the step when the request is rejected", async () => {
+      const plan = approvalPlan();
+      const result = runner.executeGraph(plan, context(plan.id));
+
+      const request = await nextRequest();
+      approvals.respond({
+        requestId: request.id,
+        approved: false,
+        reason: "Not yet",
+      });
+
+      await expect(result).rejects.toThrow("Approval rejected");
+      expect(plan.steps[1].error?.code).toBe("APPROVAL_REJECTED");
+      expect(plan.steps[2].status).toBe("pending");
+    });
+
+    it("should fail the step when the request expires", async () => {
+      const plan = approvalPlan(20);
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Approval request expired"
+      );
+      expect(plan.steps[1].error?.code).toBe("APPROVAL_EXPIRED");
+    });
+
+    it("should withdraw the request when the execution is cancelled", async () => {
+      const plan = approvalPlan();
+      const handle = runner.startGraph(plan, context(plan.id));
+
+      await nextRequest();
+      handle.cancel();
+
+      await expect(handle.result).rejects.toThrow(
+        "Workflow execution cancelled"
+      );
+      expect(approvals.getPendingRequests()).toEqual([]);
+      expect(plan.steps[1].status).toBe("pending");
+    });
+
+    it("should fail approval steps without an approval gate", async () => {
+      const plan = approvalPlan();
+      const ungated = new WorkflowRunner();
+      ungated.registerHandler("coder", async () => ({ files: [] }));
+
+      await expect(
+        ungated.executeGraph(plan, context(plan.id))
+      ).rejects.toThrow("Approval steps require an approval gate");
+    });
+  });
+
+  describe("subworkflow steps", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    const lintTestFix = {
+      name: "Lint, test, fix",
+      steps: [
+        { name: "lint", type: "action" },
+        { name: "test", type: "action", dependsOn: ["lint"] },
+      ],
+    };
+
+    beforeEach(() => {
+      runner.registerHandler("action", async (step) => `${step.name} ok`);
+    });
+
+    it("should run an inline definition and output its WorkflowResult", async () => {
+      runner.registerHandler("coder", async () => ({ branch: "feature" }));
+
+      const plan = createPlanFromDefinition({
+        name: "Parent",
+        steps: [
+          { name: "code", type: "coder" },
+          {
+            name: "verify",
+            type: "subworkflow",
+            dependsOn: ["code"],
+            subworkflow: {
+              definition: {
+                ...lintTestFix,
+                steps: [
+                  ...lintTestFix.steps,
+                  {
+                    name: "tag",
+                    type: "action",
+                    condition: "context.branch == 'feature'",
+                  },
+                ],
+              },
+              context: { branch: "{{steps.code.output.branch}}" },
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      const verify = plan.steps[1];
+      expect(verify.status).toBe("completed");
+      expect(verify.output).toEqual({
+        planId: verify.subworkflowPlanId,
+        completedNodes: ["lint", "test", "tag"],
+        failedNodes: [],
+        outputs: { lint: "lint ok", test: "test ok", tag: "tag ok" },
+      });
+    });
+
+    it("should load definitions from files and stored plans", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "subworkflow-"));
+      const planStore = new InMemoryWorkflowPlanStore();
+      const stored = createPlanFromDefinition(lintTestFix);
+      await planStore.save(stored);
+
+      try {
+        const file = join(dir, "lint-test-fix.json");
+        await writeFile(file, JSON.stringify(lintTestFix));
+
+        const composing = new WorkflowRunner({ planStore });
+        composing.registerHandler("action", async (step) => step.name);
+
+        const plan = createPlanFromDefinition({
+          name: "Parent",
+          steps: [
+            { name: "fromFile", type: "subworkflow", subworkflow: { file } },
+            {
+              name: "fromStore",
+              type: "subworkflow",
+              subworkflow: { planId: stored.id },
+            },
+          ],
+        });
+
+        await composing.executeGraph(plan, context(plan.id));
+
+        for (const step of plan.steps) {
+          expect(step.output).toMatchObject({
+            completedNodes: ["lint", "test"],
+          });
+          const child = await planStore.load(step.subworkflowPlanId ?? "");
+          expect(child?.steps.map((s) => s.status)).toEqual([
+            "completed",
+            "completed",
+          ]);
+        }
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should fail the parent step when the child plan fails", async () => {
+      runner.registerHandler("action", (step) => {
+        if (step.name === "test") {
+          throw new ValidationError("tests failed");
+        }
+        return Promise.resolve(step.name);
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Parent",
+        steps: [
+          {
+            name: "verify",
+            type: "subworkflow",
+            subworkflow: { definition: lintTestFix },
+          },
+        ],
+      });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "tests failed"
+      );
+      expect(plan.steps[0].status).toBe("failed");
+    });
+
+    it("should resume the child plan from its own checkpoints", async () => {
+      const recovery = new RecoveryManager(new InMemoryCheckpointStore());
+      const planStore = new InMemoryWorkflowPlanStore();
+      const executed: string[] = [];
+      let failTest = true;
+
+      const composing = new WorkflowRunner({
+        recovery,
+        planStore,
+        checkpointPolicy: { afterEachStep: true },
+      });
+      composing.registerHandler("action", (step) => {
+        if (step.name === "test" && failTest) {
+          throw new ValidationError("tests failed");
+        }
+        executed.push(step.name);
+        return Promise.resolve(step.name);
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Parent",
+        steps: [
+          {
+            name: "verify",
+            type: "subworkflow",
+            subworkflow: { definition: lintTestFix },
+          },
+        ],
+      });
+
+      await expect(
+        composing.executeGraph(plan, context(plan.id))
+      ).rejects.toThrow("tests failed");
+
+      const childId = plan.steps[0].subworkflowPlanId as string;
+      expect(await recovery.getLatestCheckpoint(childId)).not.toBeNull();
+
+      failTest = false;
+      executed.length = 0;
+      plan.steps[0].status = "pending";
+
+      await composing.executeGraph(plan, context(plan.id));
+
+      expect(executed).toEqual(["test"]);
+      expect(plan.steps[0].subworkflowPlanId).toBe(childId);
+      expect(plan.steps[0].output).toMatchObject({
+        completedNodes: ["lint", "test"],
+      });
+    });
+  });
+
+  describe("updates and hooks", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    it("should report step and plan updates as they happen", async () => {
+      const updates: WorkflowUpdateMessage[] = [];
+      runner.onUpdate((update) => updates.push(update));
+      runner.registerHandler("action", async (step) => `${step.name} ok`);
+
+      const plan = createPlanFromDefinition({
+        name: "Updates",
+        steps: [
+          { name: "build", type: "action" },
+          {
+            name: "deploy",
+            type: "action",
+            dependsOn: ["build"],
+            condition: "context.deploy == true",
+          },
+        ],
+      });
+      const [build, deploy] = plan.steps;
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(
+        updates.map(({ type, stepId, status }) => ({ type, stepId, status }))
+      ).toEqual([
+        { type: "workflow_started", stepId: undefined, status: undefined },
+        { type: "step_started", stepId: build.id, status: "running" },
+        { type: "step_completed", stepId: build.id, status: "completed" },
+        { type: "step_skipped", stepId: deploy.id, status: "skipped" },
+        { type: "workflow_completed", stepId: undefined, status: "completed" },
+      ]);
+      expect(updates[2].output).toBe("build ok");
+      expect(updates[0].executionId).toMatch(EXECUTION_ID_PATTERN);
+      expect(
+        updates.every((update) => update.executionId === updates[0].executionId)
+      ).toBe(true);
+    });
+
+    it("should report failures and stop notifying removed listeners", async () => {
+      const updates: WorkflowUpdateMessage[] = [];
+      const removed = vi.fn();
+      runner.onUpdate((update) => updates.push(update));
+      runner.onUpdate(removed)();
+      runner.registerHandler("action", () => {
+        throw new ValidationError("bad input");
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Failing",
+        steps: [{ name: "build", type: "action" }],
+      });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "bad input"
+      );
+
+      expect(updates.map((update) => update.type)).toEqual([
+        "workflow_started",
+        "step_started",
+        "step_failed",
+        "workflow_failed",
+      ]);
+      expect(updates[2].error).toEqual({
+        code: "STEP_EXECUTION_ERROR",
+        message: "bad input",
+      });
+      expect(updates[3].error).toEqual({
+        code: ErrorCode.VALIDATION_ERROR,
+        message: "bad input",
+      });
+      expect(removed).not.toHaveBeenCalled();
+    });
+
+    it("should run hooks around executed and skipped steps", async () => {
+      const calls: string[] = [];
+      const hooked = new WorkflowRunner({
+        hooks: {
+          beforeStep: (step) => {
+            calls.push(`before ${step.name}`);
+          },
+          afterStep: (step) => {
+            calls.push(`after ${step.name} ${step.status}`);
+          },
+        },
+      });
+      hooked.registerHandler("action", (step) => {
+        calls.push(`run ${step.name}`);
+        return Promise.resolve();
+      });
+
+      const plan = createPlanFromDefinition({
+        name: "Hooks",
+        steps: [
+          { name: "build", type: "action" },
+          {
+            name: "deploy",
+            type: "action",
+            dependsOn: ["build"],
+            condition: "context.deploy == true",
+          },
+        ],
+      });
+
+      await hooked.executeGraph(plan, context(plan.id));
+
+      expect(calls).toEqual([
+        "before build",
+        "run build",
+        "after build completed",
+        "after deploy skipped",
+      ]);
+    });
+
+    it("should fail a step whose beforeStep hook throws", async () => {
+      const handler = vi.fn();
+      const guarded = new WorkflowRunner({
+        hooks: {
+          beforeStep: () => {
+            throw new Error("quota exceeded");
+          },
+        },
+      });
+      guarded.registerHandler("action", handler);
+
+      const plan = createPlanFromDefinition({
+        name: "Guarded",
+        steps: [{ name: "build", type: "action" }],
+      });
+
+      await expect(
+        guarded.executeGraph(plan, context(plan.id))
+      ).rejects.toThrow("quota exceeded");
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(plan.steps[0].status).toBe("failed");
+      expect(plan.steps[0].error?.code).toBe("HOOK_ERROR");
+    });
+
+    it("should isolate the run from failing listeners and afterStep hooks", async () => {
+      const reported: string[] = [];
+      const observed = new WorkflowRunner({
+        hooks: {
+          afterStep: () => {
+            throw new Error("hook boom");
+          },
+          onObserverError: (error, source) => {
+            reported.push(`${source}: ${(error as Error).message}`);
+          },
+        },
+      });
+      observed.onUpdate(() => {
+        throw new Error("listener boom");
+      });
+      observed.registerHandler("action", async () => "ok");
+
+      const plan = createPlanFromDefinition({
+        name: "Observed",
+        steps: [
+          { name: "build", type: "action" },
+          { name: "test", type: "action", dependsOn: ["build"] },
+        ],
+      });
+
+      await observed.executeGraph(plan, context(plan.id));
+
+      expect(plan.steps.map((step) => step.status)).toEqual([
+        "completed",
+        "completed",
+      ]);
+      expect(reported).toContain("listener: listener boom");
+      expect(reported).toContain("afterStep: hook boom");
+    });
+
+    it("should forward updates and hooks from subworkflows", async () => {
+      const afterStep = vi.fn();
+      const updates: WorkflowUpdateMessage[] = [];
+      const composing = new WorkflowRunner({ hooks: { afterStep } });
+      composing.onUpdate((update) => updates.push(update));
+      composing.registerHandler("action", async () => "ok");
+
+      const plan = createPlanFromDefinition({
+        name: "Parent",
+        steps: [
+          {
+            name: "child",
+            type: "subworkflow",
+            subworkflow: {
+              definition: {
+                name: "Child",
+                steps: [{ name: "lint", type: "action" }],
+              },
+            },
+          },
+        ],
+      });
+
+      await composing.executeGraph(plan, context(plan.id));
+
+      const parentRun = updates[0].executionId;
+      expect(
+        updates
+          .filter((update) => update.executionId !== parentRun)
+          .map((update) => update.type)
+      ).toEqual([
+        "workflow_started",
+        "step_started",
+        "step_completed",
+        "workflow_completed",
+      ]);
+      expect(afterStep).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report a looped plan as a single run", async () => {
+      const updates: WorkflowUpdateMessage[] = [];
+      runner.onUpdate((update) => updates.push(update));
+      runner.registerHandler("action", async () => ({ passed: false }));
+
+      const plan = createPlanFromDefinition({
+        name: "Looped",
+        steps: [
+          {
+            name: "fix",
+            type: "loop",
+            loop: {
+              steps: [{ name: "test", type: "action" }],
+              until: "steps.test.output.passed",
+              maxIterations: 3,
+            },
+          },
+        ],
+      });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(
+        updates
+          .map((update) => update.type)
+          .filter((type) => type.startsWith("workflow_"))
+      ).toEqual(["workflow_started", "workflow_completed"]);
+      expect(
+        updates.filter((update) => update.type === "step_completed")
+      ).toHaveLength(4);
+    });
+  });
+
+  describe("execution control", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    const chain = (length: number) => {
+      const plan = createWorkflowPlan({ name: "Chain" });
+      const steps = Array.from({ length }, (_, i) =>
+        addStepToPlan(plan, { name: `Step ${i}`, type: "action" })
+      );
+      for (let i = 1; i < steps.length; i++) {
+        addDependencyToPlan(plan, steps[i].id, steps[i - 1].id);
+      }
+      return { plan, steps };
+    };
+
+    it("should stop scheduling while paused and continue on resume", async () => {
+      const executed: string[] = [];
+
+      runner.registerHandler("action", async (step) => {
+        executed.push(step.name);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return step.name;
+      });
+
+      const { plan, steps } = chain(3);
+      const handle = runner.startGraph(plan, context(plan.id));
+      handle.pause();
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(handle.state).toBe("paused");
+      expect(executed).toEqual(["Step 0"]);
+      expect(steps[1].status).toBe("paused");
+
+      handle.resume();
+
+      await expect(handle.result).resolves.toEqual([
+        "Step 0",
+        "Step 1",
+        "Step 2",
+      ]);
+      expect(steps.every((s) => s.status === "completed")).toBe(true);
+    });
+
+    it("should abort the handler signal and leave remaining steps pending on cancel", async () => {
+      let seenSignal: AbortSignal | undefined;
+
+      runner.registerHandler("action", (step, stepContext) => {
+        if (step.name !== "Step 1") {
+          return step.name;
+        }
+        seenSignal = stepContext.signal;
+        return new Promise((_, reject) => {
+          stepContext.signal?.addEventListener("abort", () =>
+            reject(new Error("aborted"))
+          );
+        });
+      });
+
+      const { plan, steps } = chain(3);
+      const handle = runner.startGraph(plan, context(plan.id));
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      handle.cancel("user requested");
+
+      await expect(handle.result).rejects.toThrow(
+        "Workflow execution cancelled"
+      );
+      expect(seenSignal?.aborted).toBe(true);
+      expect(handle.state).toBe("cancelled");
+      expect(steps.map((s) => s.status)).toEqual([
+        "completed",
+        "pending",
+        "pending",
+      ]);
+      expect(steps[1].error).toBeUndefined();
+    });
+
+    it("should leave a cancelled plan restorable from a checkpoint", async () => {
+      let cancelled = false;
+
+      runner.registerHandler("action", (step, stepContext) => {
+        if (step.name === "Step 1" && !cancelled) {
+          return new Promise((_, reject) => {
+            stepContext.signal?.addEventListener("abort", () =>
+              reject(new Error("aborted"))
+            );
+          });
+        }
+        return step.name;
+      });
+
+      const { plan, steps } = chain(3);
+      const handle = runner.startSequential(plan, context(plan.id));
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      handle.cancel();
+      cancelled = true;
+      await expect(handle.result).rejects.toThrow(
+        "Workflow execution cancelled"
+      );
+
+      const recovery = new RecoveryManager();
+      const checkpoint = await recovery.createRecoveryPoint(
+        plan,
+        plan.steps.filter((s) => s.status === "completed")
+      );
+      await recovery.restoreFromCheckpoint(checkpoint, plan);
+
+      const results = await runner.executeGraph(plan, context(plan.id));
+
+      expect(results).toEqual(["Step 0", "Step 1", "Step 2"]);
+      expect(steps.every((s) => s.status === "completed")).toBe(true);
+    });
+  });
+
+  describe("checkpointing", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    const linearPlan = (length: number) => {
+      const plan = createWorkflowPlan({ name: "Linear" });
+      const steps = Array.from({ length }, (_, i) =>
+        addStepToPlan(plan, { name: `Step ${i}`, type: "action" })
+      );
+      for (let i = 1; i < steps.length; i++) {
+        addDependencyToPlan(plan, steps[i].id, steps[i - 1].id);
+      }
+      return { plan, steps };
+    };
+
+    let checkpoints: InMemoryCheckpointStore;
+    let recovery: RecoveryManager;
+
+    beforeEach(() => {
+      checkpoints = new InMemoryCheckpointStore();
+      recovery = new RecoveryManager(checkpoints);
+    });
+
+    it("should checkpoint after each step", async () => {
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        checkpointPolicy: { afterEachStep: true },
+      });
+      checkpointing.registerHandler("action", async (step) => step.name);
+
+      const { plan, steps } = linearPlan(3);
+      await checkpointing.executeSequentially(plan, context(plan.id));
+
+      expect(await checkpoints.list()).toHaveLength(3);
+      const latest = await recovery.getLatestCheckpoint(plan.id);
+      expect(latest?.completedSteps).toEqual(steps.map((s) => s.id));
+    });
+
+    it("should checkpoint every N steps", async () => {
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        checkpointPolicy: { everySteps: 2 },
+      });
+      checkpointing.registerHandler("action", async (step) => step.name);
+
+      const { plan } = linearPlan(5);
+      await checkpointing.executeGraph(plan, context(plan.id));
+
+      expect(await checkpoints.list()).toHaveLength(2);
+    });
+
+    it("should count steps towards a checkpoint per execution", async () => {
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        checkpointPolicy: { everySteps: 2 },
+      });
+      checkpointing.registerHandler("action", async (step) => step.name);
+
+      const { plan, steps } = linearPlan(1);
+      await checkpointing.executeGraph(plan, context(plan.id));
+      steps[0].status = "pending";
+      await checkpointing.executeGraph(plan, context(plan.id));
+
+      expect(await checkpoints.list()).toHaveLength(0);
+    });
+
+    it("should checkpoint once the interval has elapsed", async () => {
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        checkpointPolicy: { intervalMs: 30 },
+      });
+      checkpointing.registerHandler("action", async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      });
+
+      const { plan } = linearPlan(2);
+      await checkpointing.executeSequentially(plan, context(plan.id));
+
+      const [checkpoint, ...rest] = await checkpoints.list();
+      expect(rest).toHaveLength(0);
+      expect(checkpoint.metadata.reason).toBe("periodic");
+    });
+
+    it("should write an error checkpoint when a step fails", async () => {
+      const checkpointing = new WorkflowRunner({
+        recovery,
+        checkpointPolicy: { onFailure: true },
+      });
+      checkpointing.registerHandler("action", (step) => {
+        if (step.name === "Step 1") {
+          throw new Error("boom");
+        }
+        return Promise.resolve(step.name);
+      });
+
+      const { plan, steps } = linearPlan(3);
+      await expect(
+        checkpointing.executeGraph(plan, context(plan.id))
+      ).rejects.toThrow("boom");
+
+      const latest = await recovery.getLatestCheckpoint(plan.id);
+      expect(latest?.metadata).toMatchObject({
+        reason: "error_recovery",
+        error: "boom",
+      });
+      expect(latest?.completedSteps).toEqual([steps[0].id]);
+    });
+
+    it("should not checkpoint without a recovery manager", async () => {
+      const plain = new WorkflowRunner({
+        checkpointPolicy: { afterEachStep: true },
+      });
+      plain.registerHandler("action", async (step) => step.name);
+
+      const { plan } = linearPlan(2);
+
+      await expect(
+        plain.executeSequentially(plan, context(plan.id))
+      ).resolves.toEqual(["Step 0", "Step 1"]);
+    });
+
+    describe("resumePlan", () => {
+      it("should execute only the steps after the latest checkpoint", async () => {
+        const planStore = new InMemoryWorkflowPlanStore();
+        const executed: string[] = [];
+        let failing = true;
+
+        const checkpointing = new WorkflowRunner({
+          recovery,
+          planStore,
+          checkpointPolicy: { afterEachStep: true },
+        });
+        checkpointing.registerHandler("action", (step) => {
+          executed.push(step.name);
+          if (step.name === "Step 2" && failing) {
+            throw new Error("transient");
+          }
+          return Promise.resolve(step.name);
+        });
+
+        const { plan } = linearPlan(4);
+        await expect(
+          checkpointing.executeGraph(plan, context(plan.id))
+        ).rejects.toThrow("transient");
+
+        failing = false;
+        executed.length = 0;
+
+        const results = await checkpointing.resumePlan(plan.id);
+
+        expect(executed).toEqual(["Step 2", "Step 3"]);
+        expect(results).toEqual(["Step 0", "Step 1", "Step 2", "Step 3"]);
+
+        const saved = await planStore.load(plan.id);
+        expect(saved?.steps.every((s) => s.status === "completed")).toBe(true);
+      });
+
+      it("should reject checkpoints taken against another plan revision", async () => {
+        const planStore = new InMemoryWorkflowPlanStore();
+        const checkpointing = new WorkflowRunner({
+          recovery,
+          planStore,
+          checkpointPolicy: { afterEachStep: true },
+        });
+        checkpointing.registerHandler("action", async (step) => step.name);
+
+        const { plan } = linearPlan(1);
+        await checkpointing.executeGraph(plan, context(plan.id));
+        addStepToPlan(plan, { name: "Added later", type: "action" });
+        await planStore.save(plan);
+
+        await expect(checkpointing.resumePlan(plan.id)).rejects.toThrow(
+          "Checkpoint does not match workflow plan"
+        );
+      });
+
+      it("should reject plans without a checkpoint", async () => {
+        const planStore = new InMemoryWorkflowPlanStore();
+        const checkpointing = new WorkflowRunner({ recovery, planStore });
+
+        const { plan } = linearPlan(1);
+        await planStore.save(plan);
+
+        await expect(checkpointing.resumePlan(plan.id)).rejects.toThrow(
+          "No checkpoint found for plan"
+        );
+      });
+
+      it("should require a recovery manager and plan store", async () => {
+        await expect(runner.resumePlan("plan_1")).rejects.toThrow(
+          "Resuming plans requires a recovery manager and a plan store"
+        );
+      });
+    });
+  });
+
+  describe("retry policies", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    const rateLimited = () =>
+      new StructuredError("Too many requests", ErrorCode.RATE_LIMIT_ERROR);
+
+    it("should retry retryable errors and record each attempt", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        if (calls < 3) {
+          throw rateLimited();
+        }
+        return "ok";
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Flaky",
+        type: "action",
+        retry: { maxAttempts: 3, delay: 1 },
+      });
+
+      await expect(
+        runner.executeSequentially(plan, context(plan.id))
+      ).resolves.toEqual(["ok"]);
+
+      expect(step.status).toBe("completed");
+      expect(step.error).toBeUndefined();
+      expect(step.attempts?.map((a) => a.error?.code)).toEqual([
+        ErrorCode.RATE_LIMIT_ERROR,
+        ErrorCode.RATE_LIMIT_ERROR,
+        undefined,
+      ]);
+      expect(step.startTime).toBe(step.attempts?.[0].startTime);
+    });
+
+    it("should not retry fatal errors", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        throw new ValidationError("Invalid instruction");
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Invalid",
+        type: "action",
+        retry: { maxAttempts: 5, delay: 1 },
+      });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Invalid instruction"
+      );
+
+      expect(calls).toBe(1);
+      expect(step.status).toBe("failed");
+      expect(step.attempts).toHaveLength(1);
+      expect(step.attempts?.[0].error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+    });
+
+    it("should stop after the maximum number of attempts", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        throw rateLimited();
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      addStepToPlan(plan, {
+        name: "Limited",
+        type: "action",
+        retry: { maxAttempts: 2, delay: 1 },
+      });
+
+      await expect(
+        runner.executeParallel(plan, context(plan.id))
+      ).rejects.toThrow("Too many requests");
+      expect(calls).toBe(2);
+    });
+
+    it("should apply the plan retry configuration by default", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        if (calls === 1) {
+          throw rateLimited();
+        }
+        return "ok";
+      });
+
+      const plan = createWorkflowPlan({
+        name: "Test",
+        config: { retryAttempts: 1, retryDelay: 1 },
+      });
+      const step = addStepToPlan(plan, { name: "Step", type: "action" });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(calls).toBe(2);
+      expect(step.attempts).toHaveLength(2);
+    });
+
+    it("should stop retrying when the execution is cancelled", async () => {
+      let calls = 0;
+      runner.registerHandler("action", () => {
+        calls += 1;
+        throw rateLimited();
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      addStepToPlan(plan, {
+        name: "Limited",
+        type: "action",
+        retry: { maxAttempts: 5, delay: 10_000 },
+      });
+
+      const handle = runner.startGraph(plan, context(plan.id));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      handle.cancel();
+
+      await expect(handle.result).rejects.toThrow(
+        "Workflow execution cancelled"
+      );
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe("timeouts", () => {
+    const context = (planId: string): ExecutionContext => ({
+      planId,
+      stepId: "",
+      data: {},
+    });
+
+    const hang: StepHandler = (_step, stepContext) =>
+      new Promise((_, reject) => {
+        stepContext.signal?.addEventListener("abort", () =>
+          reject(new Error("aborted"))
+        );
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should fail a step that exceeds its timeout and abort its handler", async () => {
+      let seenSignal: AbortSignal | undefined;
+      runner.registerHandler("action", (actionStep, stepContext) => {
+        seenSignal = stepContext.signal;
+        return hang(actionStep, stepContext);
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Slow",
+        type: "action",
+        timeout: 10,
+        retry: { maxAttempts: 1 },
+      });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Step execution timeout"
+      );
+
+      expect(seenSignal?.aborted).toBe(true);
+      expect(step.status).toBe("failed");
+      expect(step.error?.code).toBe(ErrorCode.TIMEOUT_ERROR);
+    });
+
+    it("should fail the step even if the handler ignores the signal", async () => {
+      runner.registerHandler(
+        "action",
+        () => new Promise((resolve) => setTimeout(resolve, 100))
+      );
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, { name: "Stubborn", type: "action" });
+
+      await expect(
+        runner.executeWithTimeout(step, context(plan.id), 10)
+      ).rejects.toThrow("Step execution timeout");
+      expect(step.status).toBe("failed");
+    });
+
+    it("should fail unfinished steps once the plan deadline passes", async () => {
+      runner.registerHandler(
+        "action",
+        () => new Promise((resolve) => setTimeout(resolve, 60))
+      );
+
+      const plan = createPlanFromDefinition({
+        name: "Deadline",
+        config: { timeout: 100, retryAttempts: 0 },
+        steps: [
+          { name: "one", type: "action" },
+          { name: "two", type: "action", dependsOn: ["one"] },
+          { name: "three", type: "action", dependsOn: ["two"] },
+        ],
+      });
+
+      await expect(
+        runner.executeSequentially(plan, context(plan.id))
+      ).rejects.toThrow("Plan execution timeout");
+
+      expect(plan.steps.map((step) => step.status)).toEqual([
+        "completed",
+        "failed",
+        "failed",
+      ]);
+      expect(plan.steps[1].error?.code).toBe(ErrorCode.TIMEOUT_ERROR);
+      expect(plan.steps[2].error?.code).toBe(ErrorCode.TIMEOUT_ERROR);
+    });
+
+    it("should abort running steps of a graph at the plan deadline", async () => {
+      let seenSignal: AbortSignal | undefined;
+      runner.registerHandler("action", (slowStep, stepContext) => {
+        seenSignal = stepContext.signal;
+        return hang(slowStep, stepContext);
+      });
+
+      const plan = createWorkflowPlan({
+        name: "Test",
+        config: { timeout: 10, retryAttempts: 0 },
+      });
+      const step = addStepToPlan(plan, { name: "Slow", type: "action" });
+
+      await expect(runner.executeGraph(plan, context(plan.id))).rejects.toThrow(
+        "Plan execution timeout"
+      );
+      expect(seenSignal?.aborted).toBe(true);
+      expect(step.error?.code).toBe(ErrorCode.TIMEOUT_ERROR);
+    });
+
+    it("should retry timed out steps under the retry policy", async () => {
+      let calls = 0;
+      runner.registerHandler("action", (actionStep, stepContext) => {
+        calls += 1;
+        return calls === 1 ? hang(actionStep, stepContext) : "ok";
+      });
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      const step = addStepToPlan(plan, {
+        name: "Slow once",
+        type: "action",
+        timeout: 10,
+        retry: { maxAttempts: 2, delay: 1 },
+      });
+
+      await expect(
+        runner.executeGraph(plan, context(plan.id))
+      ).resolves.toEqual(["ok"]);
+      expect(step.attempts?.[0].error?.code).toBe(ErrorCode.TIMEOUT_ERROR);
+    });
+
+    it("should clear the timer once the handler settles", async () => {
+      vi.useFakeTimers();
+      runner.registerHandler("action", async () => "done");
+
+      const plan = createWorkflowPlan({ name: "Test" });
+      addStepToPlan(plan, { name: "Fast", type: "action", timeout: 60_000 });
+
+      await runner.executeGraph(plan, context(plan.id));
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   describe("retryStep", () => {
     it("should retry a failed step", async () => {
       let attempts = 0;
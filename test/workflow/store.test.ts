@@ -0,0 +1,387 @@
+/**
+ * Workflow Plan Store Tests
+ * Tests for plan persistence backends and engine integration
+ */
+
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { WorkflowUpdateMessage } from "../../src/contracts/workflow";
+import { ErrorCode } from "../../src/core/errors";
+import { ApprovalGate } from "../../src/workflow/approval";
+import { WorkflowEngine } from "../../src/workflow/engine";
+import {
+  addDependencyToPlan,
+  addStepToPlan,
+  createPlanFromDefinition,
+  type StepType,
+  type WorkflowPlan,
+} from "../../src/workflow/plan";
+import { WorkflowRunner } from "../../src/workflow/runner";
+import {
+  FileSystemWorkflowPlanStore,
+  InMemoryWorkflowPlanStore,
+  type WorkflowPlanStore,
+} from "../../src/workflow/store";
+
+const EXECUTION_ID_PATTERN = /^exec_/;
+
+function buildPlan(
+  engine: WorkflowEngine,
+  stepTypes: StepType[]
+): WorkflowPlan {
+  const plan = engine.createPlan({ name: "Store Test" });
+  for (const type of stepTypes) {
+    addStepToPlan(plan, { name: `${type} step`, type });
+  }
+  return plan;
+}
+
+const backends: Array<{
+  name: string;
+  create: () => Promise<{
+    store: WorkflowPlanStore;
+    cleanup: () => Promise<void>;
+  }>;
+}> = [
+  {
+    name: "InMemoryWorkflowPlanStore",
+    create: async () => ({
+      store: new InMemoryWorkflowPlanStore(),
+      cleanup: () => Promise.resolve(),
+    }),
+  },
+  {
+    name: "FileSystemWorkflowPlanStore",
+    create: async () => {
+      const dir = await mkdtemp(join(tmpdir(), "plan-store-"));
+      return {
+        store: new FileSystemWorkflowPlanStore(dir),
+        cleanup: () => rm(dir, { recursive: true, force: true }),
+      };
+    },
+  },
+];
+
+for (const backend of backends) {
+  describe(backend.name, () => {
+    let store: WorkflowPlanStore;
+    let cleanup: () => Promise<void>;
+    let engine: WorkflowEngine;
+
+    beforeEach(async () => {
+      ({ store, cleanup } = await backend.create());
+      engine = new WorkflowEngine(store);
+    });
+
+    afterEach(async () => {
+      await cleanup();
+    });
+
+    it("should save and load a plan", async () => {
+      const plan = buildPlan(engine, ["checkpoint"]);
+
+      await store.save(plan);
+      const loaded = await store.load(plan.id);
+
+      expect(loaded).toEqual(plan);
+    });
+
+    it("should return null for unknown plans", async () => {
+      expect(await store.load("workflow_missing")).toBeNull();
+    });
+
+    it("should list and delete plans", async () => {
+      const first = buildPlan(engine, ["checkpoint"]);
+      const second = buildPlan(engine, ["recovery"]);
+
+      await store.save(first);
+      await store.save(second);
+
+      expect((await store.list()).map((p) => p.id).sort()).toEqual(
+        [first.id, second.id].sort()
+      );
+
+      expect(await store.delete(first.id)).toBe(true);
+      expect(await store.delete(first.id)).toBe(false);
+      expect((await store.list()).map((p) => p.id)).toEqual([second.id]);
+    });
+
+    it("should query plans by status", async () => {
+      const pending = buildPlan(engine, ["checkpoint"]);
+      const failed = {
+        ...buildPlan(engine, ["checkpoint"]),
+        status: "failed" as const,
+      };
+
+      await store.save(pending);
+      await store.save(failed);
+
+      expect((await store.findByStatus("pending")).map((p) => p.id)).toEqual([
+        pending.id,
+      ]);
+      expect((await store.findByStatus("failed")).map((p) => p.id)).toEqual([
+        failed.id,
+      ]);
+    });
+  });
+}
+
+describe("FileSystemWorkflowPlanStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "plan-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should write one JSON file per plan", async () => {
+    const store = new FileSystemWorkflowPlanStore(dir);
+    const engine = new WorkflowEngine(store);
+
+    await store.save(buildPlan(engine, ["checkpoint"]));
+    await store.save(buildPlan(engine, ["recovery"]));
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(2);
+    expect(files.every((f) => f.endsWith(".json"))).toBe(true);
+  });
+
+  it("should replace plan files without exposing partial writes", async () => {
+    const store = new FileSystemWorkflowPlanStore(dir);
+    const engine = new WorkflowEngine(store);
+    const plan = buildPlan(engine, ["checkpoint"]);
+    await store.save(plan);
+
+    const saves = Array.from({ length: 20 }, (_, index) => {
+      plan.description = "x".repeat(index * 1000);
+      return store.save(structuredClone(plan));
+    });
+    const loads = Array.from({ length: 20 }, () => store.load(plan.id));
+    await Promise.all(saves);
+
+    // Saves finish in any order, but every load reads a whole plan
+    for (const loaded of await Promise.all(loads)) {
+      expect(loaded?.id).toBe(plan.id);
+    }
+    expect(await readdir(dir)).toEqual([`${plan.id}.json`]);
+  });
+
+  it("should reject plan IDs that escape the directory", async () => {
+    const store = new FileSystemWorkflowPlanStore(dir);
+
+    await expect(store.load("../outside")).rejects.toThrow(
+      "Invalid workflow plan ID"
+    );
+  });
+
+  it("should resume a plan across engine instances", async () => {
+    const first = new WorkflowEngine(new FileSystemWorkflowPlanStore(dir));
+    const plan = buildPlan(first, ["agent_init", "checkpoint"]);
+    await first.savePlan(plan);
+
+    const second = new WorkflowEngine(new FileSystemWorkflowPlanStore(dir));
+    const result = await second.executePlan(plan.id);
+
+    expect(result.status).toBe("completed");
+    expect(result.steps.every((s) => s.status === "completed")).toBe(true);
+    expect((await first.loadPlan(plan.id))?.status).toBe("completed");
+  });
+});
+
+describe("WorkflowEngine.executePlan", () => {
+  let engine: WorkflowEngine;
+
+  beforeEach(() => {
+    engine = new WorkflowEngine();
+  });
+
+  it("should fail for plans that were never saved", async () => {
+    await expect(engine.executePlan("workflow_missing")).rejects.toThrow(
+      "Workflow plan workflow_missing not found"
+    );
+  });
+
+  it("should record failed steps and mark the plan failed", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler("recovery", () => {
+      throw new Error("Recovery failed");
+    });
+    engine = new WorkflowEngine(new InMemoryWorkflowPlanStore(), runner);
+
+    const plan = buildPlan(engine, ["checkpoint", "recovery"]);
+    await engine.savePlan(plan);
+
+    const result = await engine.executePlan(plan.id);
+
+    expect(result.status).toBe("failed");
+    expect(result.steps[0].status).toBe("completed");
+    expect(result.steps[1].status).toBe("failed");
+    expect(result.steps[1].error?.code).toBe("STEP_EXECUTION_ERROR");
+    expect(await engine.findPlansByStatus("failed")).toHaveLength(1);
+  });
+
+  it("should fail steps whose dependencies failed", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler("model_validation", () => {
+      throw new Error("Model rejected");
+    });
+    engine = new WorkflowEngine(new InMemoryWorkflowPlanStore(), runner);
+
+    const plan = buildPlan(engine, ["model_validation", "agent_init"]);
+    addDependencyToPlan(plan, plan.steps[1].id, plan.steps[0].id);
+    await engine.savePlan(plan);
+
+    const result = await engine.executePlan(plan.id);
+
+    expect(result.steps[0].status).toBe("failed");
+    expect(result.steps[1].status).toBe("failed");
+    expect(result.steps[1].error?.code).toBe("DEPENDENCY_FAILED");
+  });
+
+  it("should fail the plan once its timeout passes", async () => {
+    const runner = new WorkflowRunner();
+    runner.registerHandler(
+      "action",
+      () => new Promise((resolve) => setTimeout(resolve, 500))
+    );
+    engine = new WorkflowEngine(new InMemoryWorkflowPlanStore(), runner);
+
+    const plan = engine.createPlan({ name: "Slow", timeout: 50 });
+    addStepToPlan(plan, { name: "deploy", type: "action" });
+    addStepToPlan(plan, { name: "notify", type: "agent_init" });
+    addDependencyToPlan(plan, plan.steps[1].id, plan.steps[0].id);
+    await engine.savePlan(plan);
+
+    const startedAt = Date.now();
+    const result = await engine.executePlan(plan.id);
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(result.status).toBe("failed");
+    expect(result.steps.map((step) => step.error?.code)).toEqual([
+      ErrorCode.TIMEOUT_ERROR,
+      "DEPENDENCY_FAILED",
+    ]);
+    expect((await engine.listExecutions({ planId: plan.id }))[0]).toMatchObject(
+      {
+        status: "failed",
+        error: { code: ErrorCode.TIMEOUT_ERROR },
+      }
+    );
+  });
+
+  it("should execute plans built from definitions", async () => {
+    const plan = createPlanFromDefinition({
+      name: "Definition Plan",
+      steps: [
+        { name: "init", type: "agent_init" },
+        { name: "validate", type: "model_validation" },
+        { name: "save", type: "checkpoint" },
+      ],
+    });
+    await engine.savePlan(plan);
+
+    const result = await engine.executePlan(plan.id);
+
+    expect(result.status).toBe("completed");
+    expect(result.steps.map((s) => s.output)).toEqual([
+      { status: "completed", output: "Agent initialized" },
+      { status: "completed", output: "Model validated" },
+      { status: "completed", output: "Checkpoint created" },
+    ]);
+  });
+
+  it("should report execution status through the contract shape", async () => {
+    const plan = buildPlan(engine, ["agent_init", "checkpoint"]);
+    await engine.savePlan(plan);
+
+    expect(await engine.getExecutionStatus(plan.id)).toBeNull();
+
+    await engine.executePlan(plan.id);
+    const status = await engine.getExecutionStatus(plan.id);
+
+    expect(status?.executionId).toMatch(EXECUTION_ID_PATTERN);
+    expect(status?.planId).toBe(plan.id);
+    expect(status?.status).toBe("completed");
+    expect(status?.steps).toHaveLength(2);
+    expect(status?.steps[0].duration).toBeGreaterThanOrEqual(0);
+    expect(status?.completedAt).toBeGreaterThanOrEqual(status?.startedAt ?? 0);
+  });
+
+  it("should report plan updates to the runner's listeners", async () => {
+    const runner = new WorkflowRunner();
+    const updates: WorkflowUpdateMessage[] = [];
+    runner.onUpdate((update) => updates.push(update));
+    engine = new WorkflowEngine(new InMemoryWorkflowPlanStore(), runner);
+
+    const plan = buildPlan(engine, ["agent_init", "checkpoint"]);
+    await engine.savePlan(plan);
+    await engine.executePlan(plan.id);
+    const status = await engine.getExecutionStatus(plan.id);
+
+    expect(
+      updates
+        .map((update) => update.type)
+        .filter((type) => type.startsWith("workflow_"))
+    ).toEqual(["workflow_started", "workflow_completed"]);
+    expect(
+      updates.every((update) => update.executionId === status?.executionId)
+    ).toBe(true);
+  });
+
+  it("should show plans waiting for an approval to store queries", async () => {
+    const approvals = new ApprovalGate();
+    engine = new WorkflowEngine(
+      new InMemoryWorkflowPlanStore(),
+      new WorkflowRunner({ approvals })
+    );
+
+    const plan = createPlanFromDefinition({
+      name: "Release",
+      steps: [
+        { name: "push", type: "approval", approval: { question: "Push?" } },
+        { name: "notify", type: "agent_init", dependsOn: ["push"] },
+      ],
+    });
+    await engine.savePlan(plan);
+
+    const result = engine.executePlan(plan.id);
+    const request = await vi.waitFor(() => {
+      const [pending] = approvals.getPendingRequests();
+      if (!pending) {
+        throw new Error("No pending approval request");
+      }
+      return pending;
+    });
+
+    await vi.waitFor(async () =>
+      expect(await engine.findPlansByStatus("waiting_for_input")).toHaveLength(
+        1
+      )
+    );
+    expect((await engine.getExecutionStatus(plan.id))?.status).toBe(
+      "waiting_for_input"
+    );
+
+    approvals.respond({ requestId: request.id, approved: true });
+
+    expect((await result).status).toBe("completed");
+    expect(await engine.findPlansByStatus("waiting_for_input")).toEqual([]);
+  });
+
+  it("should skip steps already completed in a previous run", async () => {
+    const plan = buildPlan(engine, ["checkpoint", "recovery"]);
+    plan.steps[0].status = "completed";
+    plan.steps[0].output = "kept";
+    await engine.savePlan(plan);
+
+    const result = await engine.executePlan(plan.id);
+
+    expect(result.steps[0].output).toBe("kept");
+    expect(result.steps[1].status).toBe("completed");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Workflow Visualization Tests
+ * Tests for Mermaid and DOT rendering of workflow and execution plans
+ */
+
+import { describe, expect, it } from "vitest";
+import type { ExecutionPlan } from "../../src/domain";
+import { createPlanFromDefinition } from "../../src/workflow/plan";
+import {
+  type GraphFormat,
+  renderDot,
+  renderMermaid,
+  renderPlanGraph,
+} from "../../src/workflow/visualize";
+
+const workflowPlan = () => {
+  const plan = createPlanFromDefinition({
+    name: 'Release "main"',
+    steps: [
+      { name: "build", type: "action" },
+      { name: "test <unit>", type: "action", dependsOn: ["build"] },
+    ],
+  });
+  Object.assign(plan.steps[0], {
+    status: "completed",
+    startTime: 0,
+    endTime: 1250,
+  });
+  Object.assign(plan.steps[1], { status: "failed", startTime: 1250 });
+  return plan;
+};
+
+const executionPlan: ExecutionPlan = {
+  id: "exec_plan_1",
+  nodes: {
+    setup: {
+      id: "setup",
+      tool: { tag: "CreateAgent", agentType: "coder", name: "alice" },
+      dependencies: [],
+      status: "complete",
+      startTime: 1000,
+      endTime: 1350,
+    },
+    browse: {
+      id: "browse",
+      tool: { tag: "BrowserUse", task: "Check docs", url: "https://x.dev" },
+      dependencies: ["setup"],
+      status: "pending",
+    },
+  },
+  parallelBatches: [["setup"], ["browse"]],
+};
+
+describe("renderMermaid", () => {
+  it("should render steps, dependencies, statuses and durations", () => {
+    expect(renderMermaid(workflowPlan())).toBe(
+      [
+        "flowchart TD",
+        '  s0["build<br/>action · 1.3s"]',
+        '  s1["test #lt;unit#gt;<br/>action"]',
+        "  s0 --> s1",
+        "  classDef completed fill:#dcfce7,stroke:#22c55e",
+        "  class s0 completed",
+        "  classDef failed fill:#fee2e2,stroke:#ef4444",
+        "  class s1 failed",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should render execution plans with their tools", () => {
+    const output = renderMermaid(executionPlan);
+
+    expect(output).toContain('n0["setup<br/>create coder alice · 350ms"]');
+    expect(output).toContain('n1["browse<br/>browse https://x.dev"]');
+    expect(output).toContain("n0 --> n1");
+    expect(output).toContain("class n0 completed");
+    expect(output).toContain("class n1 pending");
+  });
+
+  it("should round durations before splitting them into minutes", () => {
+    const plan = workflowPlan();
+    Object.assign(plan.steps[0], { startTime: 0, endTime: 119_600 });
+    Object.assign(plan.steps[1], { endTime: 1250 + 59_960 });
+
+    const output = renderMermaid(plan);
+
+    expect(output).toContain('s0["build<br/>action · 2m"]');
+    expect(output).toContain('s1["test #lt;unit#gt;<br/>action · 1m"]');
+  });
+});
+
+describe("renderDot", () => {
+  it("should render a digraph with coloured nodes", () => {
+    const output = renderDot(workflowPlan());
+
+    expect(output.startsWith('digraph "Release \\"main\\"" {')).toBe(true);
+    expect(output).toContain(
+      '  s0 [label="build\\naction · 1.3s", fillcolor="#dcfce7", color="#22c55e"];'
+    );
+    expect(output).toContain("  s0 -> s1;");
+    expect(output.trimEnd().endsWith("}")).toBe(true);
+  });
+});
+
+describe("renderPlanGraph", () => {
+  it("should reject unknown formats", () => {
+    expect(() => renderPlanGraph(executionPlan, "svg" as GraphFormat)).toThrow(
+      "Unsupported graph format"
+    );
+  });
+});